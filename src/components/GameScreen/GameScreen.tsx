@@ -1,9 +1,14 @@
-import React, { useRef, useEffect, useState } from 'react';
-import { TimingHistory } from '../../types/types';
-import { getTargetedPatterns } from '../../utils/utils';
+import React, { useMemo, useState } from 'react';
+import { TimingHistory, GameMode, ThemeSetting, CustomTheme, GhostSetting, CaretPosition, KeyboardLayout, TextModes, CapitalizationMode } from '../../types/types';
+import { getTargetedPatterns, formatGameMode, WORD_MODE_LENGTHS, TIMED_MODE_LENGTHS, MAX_CUSTOM_WORDS } from '../../utils/utils';
 import './GameScreen.css';
-import { toggleTheme, isDarkMode } from '../../utils/theme';
 import { HelpModal } from './HelpModal';
+import { ThemeEditorModal } from './ThemeEditorModal';
+import { LayoutEditorModal } from './LayoutEditorModal';
+import WordDisplay from './WordDisplay';
+import { getCustomThemeSetting } from '../../utils/theme';
+import { BUILT_IN_LAYOUTS, detectLayout } from '../../utils/keyboardLayouts';
+import { formatFinger } from '../../utils/fingers';
 
 interface GameScreenProps {
   words: string[];
@@ -13,8 +18,30 @@ interface GameScreenProps {
   timingHistory: TimingHistory;
   strictMode: boolean;
   hideTargets: boolean;
+  theme: ThemeSetting;
+  customThemes: CustomTheme[];
+  keyboardLayout: KeyboardLayout;
+  customLayouts: KeyboardLayout[];
+  gameMode: GameMode;
+  timeRemaining: number | null;
+  ghostSetting: GhostSetting;
+  isRacingChosenGame: boolean;
+  hasGhost: boolean;
+  ghostPosition: CaretPosition | null;
+  ghostLead: number | null;
+  challengeSeed: string | null;
+  onChangeGameMode: (mode: GameMode) => void;
   onToggleStrictMode: () => void;
   onToggleHideTargets: () => void;
+  onChangeTheme: (theme: ThemeSetting) => void;
+  onChangeCustomThemes: (customThemes: CustomTheme[]) => void;
+  onChangeLayout: (layoutId: string) => void;
+  onChangeCustomLayouts: (customLayouts: KeyboardLayout[]) => void;
+  onChangeGhost: (ghost: GhostSetting) => void;
+  textModes: TextModes;
+  onChangeTextModes: (textModes: TextModes) => void;
+  onShareChallenge: () => void;
+  onLeaveChallenge: () => void;
 }
 
 const GameScreen: React.FC<GameScreenProps> = ({
@@ -25,165 +52,148 @@ const GameScreen: React.FC<GameScreenProps> = ({
   timingHistory,
   strictMode,
   hideTargets,
+  theme,
+  customThemes,
+  keyboardLayout,
+  customLayouts,
+  gameMode,
+  timeRemaining,
+  ghostSetting,
+  isRacingChosenGame,
+  hasGhost,
+  ghostPosition,
+  ghostLead,
+  challengeSeed,
+  onChangeGameMode,
   onToggleStrictMode,
-  onToggleHideTargets
+  onToggleHideTargets,
+  onChangeTheme,
+  onChangeCustomThemes,
+  onChangeLayout,
+  onChangeCustomLayouts,
+  onChangeGhost,
+  textModes,
+  onChangeTextModes,
+  onShareChallenge,
+  onLeaveChallenge
 }) => {
-  // Reference to the container div for calculating word wrapping
-  const containerRef = useRef<HTMLDivElement>(null);
-  
-  // Array of lines containing word elements after word wrapping calculation
-  const [lines, setLines] = useState<React.ReactElement[][]>([]);
-
-  // Dark mode toggle
-  const [darkMode, setDarkMode] = useState(false);
-
   // Add this state for the modal
   const [isHelpOpen, setIsHelpOpen] = useState(false);
 
-  // Calculate word wrapping based on container width
-  useEffect(() => {
-    const calculateLines = () => {
-      if (!containerRef.current) return;
+  // Whether the theme editor is open
+  const [isThemeEditorOpen, setIsThemeEditorOpen] = useState(false);
 
-      const containerWidth = containerRef.current.clientWidth + 10;
-      let currentLine: React.ReactElement[] = [];
-      let currentLineWidth = 0;
-      const newLines: React.ReactElement[][] = [];
-      const charWidth = 15;
-      const spaceWidth = charWidth;
+  // Whether the keyboard layout editor is open
+  const [isLayoutEditorOpen, setIsLayoutEditorOpen] = useState(false);
 
-      words.forEach((word, idx) => {
-        const wordElement = (
-          <span key={idx} className="word-wrapper">
-            {renderWord(word, idx)}
-          </span>
-        );
+  // Id of a suggested layout the user chose to keep ignoring
+  const [dismissedLayoutId, setDismissedLayoutId] = useState<string | null>(null);
 
-        const wordWidth = word.length * charWidth;
-        const totalWidth = currentLineWidth + wordWidth + (currentLine.length > 0 ? spaceWidth : 0);
+  // Layout the operating system seems to be set to, judged from the physical keys struck;
+  // the layout in use is compared first so it wins a tie
+  const detectedLayout = useMemo(
+    () => detectLayout(timingHistory.historicalPerformance, [keyboardLayout, ...BUILT_IN_LAYOUTS, ...customLayouts]),
+    [timingHistory.historicalPerformance, keyboardLayout, customLayouts]
+  );
+  const suggestedLayout = detectedLayout && detectedLayout.layout.id !== keyboardLayout.id && detectedLayout.layout.id !== dismissedLayoutId
+    ? detectedLayout.layout
+    : null;
 
-        if (totalWidth > containerWidth && currentLine.length > 0) {
-          newLines.push([...currentLine]);
-          currentLine = [wordElement];
-          currentLineWidth = wordWidth;
-        } else {
-          currentLine.push(wordElement);
-          currentLineWidth = totalWidth;
-        }
-      });
+  // Letters, bigrams, trigrams, words and finger the word list favors, worked out once rather than on every key press
+  const targeted = useMemo(() => getTargetedPatterns(timingHistory, keyboardLayout), [timingHistory, keyboardLayout]);
 
-      if (currentLine.length > 0) {
-        newLines.push(currentLine);
-      }
+  // A custom theme deleted while another profile used it falls back to following the system
+  const isMissingCustomTheme = theme.startsWith('custom:') &&
+    !customThemes.some(customTheme => getCustomThemeSetting(customTheme.id) === theme);
 
-      setLines(newLines);
-    };
+  // Whether a custom word count is being used instead of one of the presets
+  const [isCustomLength, setIsCustomLength] = useState(
+    gameMode.type === 'words' && !WORD_MODE_LENGTHS.includes(gameMode.length)
+  );
 
-    calculateLines();
-    window.addEventListener('resize', calculateLines);
-    return () => window.removeEventListener('resize', calculateLines);
-  }, [words, wordIndex, currentInput, completedInputs, hideTargets]);
+  // Text of the custom word count input
+  const [customLength, setCustomLength] = useState(String(gameMode.length));
 
-  // Render a single word with appropriate styling based on typing progress
-  const renderWord = (word: string, index: number) => {
-    const { letters, bigrams, words: targetWords } = getTargetedPatterns(timingHistory);
-    
-    // Track indices of characters that are part of targeted bigrams
-    const bigramIndices = new Set<number>();
-    for (let i = 0; i < word.length - 1; i++) {
-      const bigram = word.slice(i, i + 2);
-      if (bigrams.includes(bigram)) {
-        bigramIndices.add(i);
-        bigramIndices.add(i + 1);
-      }
-    }
-    
-    // Render a single character with appropriate styling
-    const renderChar = (char: string, charIndex: number) => {
-      let className = '';
-      const isTargetedLetter = letters.includes(char);
-      const isInTargetedBigram = bigramIndices.has(charIndex);
-      const isInTargetedWord = targetWords.includes(word);
-      
-      // Apply styling based on typing progress and correctness
-      if (index < wordIndex) {
-        const typedInput = completedInputs[index];
-        className = typedInput?.[charIndex] === char ? 'correct-char' : 'incorrect-char';
-      } else if (index === wordIndex) {
-        if (charIndex < currentInput.length) {
-          className = currentInput[charIndex] === char ? 'correct-char' : 'incorrect-char';
-        } else {
-          className = 'untyped-char';
-        }
-      } else {
-        className = 'untyped-char';
-      }
-      
-      // Apply additional styling for targeted patterns
-      if (!hideTargets) {
-        if (isTargetedLetter) {
-          className += ' targeted-pattern';
-        }
-        if (isInTargetedBigram) {
-          className += ' targeted-pattern bigram';
-        }
-        if (isInTargetedWord) {
-          className += ' targeted-word';
-        }
-      }
-      
-      return (
-        <span key={charIndex} className={className}>
-          {char}
-        </span>
-      );
-    };
+  // Mode the custom word count was last set from
+  const [lengthSourceMode, setLengthSourceMode] = useState(gameMode);
+
+  // Follow modes set from outside the selector, such as a challenge link or a race of a custom-length game
+  if (gameMode.type !== lengthSourceMode.type || gameMode.length !== lengthSourceMode.length) {
+    setLengthSourceMode(gameMode);
+    setIsCustomLength(gameMode.type === 'words' && !WORD_MODE_LENGTHS.includes(gameMode.length));
+    setCustomLength(String(gameMode.length));
+  }
+
+  // Game modes offered in the mode selector
+  const gameModes: GameMode[] = [
+    ...WORD_MODE_LENGTHS.map(length => ({ type: 'words' as const, length })),
+    ...TIMED_MODE_LENGTHS.map(length => ({ type: 'time' as const, length }))
+  ];
+  const getModeKey = (mode: GameMode) => `${mode.type}-${mode.length}`;
 
-    // Render completed words
-    if (index < wordIndex) {
-      return (
-        <span>
-          {word.split('').map((char, charIndex) => renderChar(char, charIndex))}
-          {' '}
-        </span>
-      );
+  const handleGameModeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (e.target.value === 'custom') {
+      setIsCustomLength(true);
+      commitCustomLength();
+    } else {
+      setIsCustomLength(false);
+      onChangeGameMode(gameModes.find(mode => getModeKey(mode) === e.target.value)!);
     }
-    
-    // Render current word with cursor
-    if (index === wordIndex) {
-      const cursorOffset = 0.55 * currentInput.length;
+    // Release focus so typing does not change the selection
+    e.target.blur();
+  };
 
-      const cursorStyle = {
-        '--cursor-offset': `${cursorOffset}em`
-      } as React.CSSProperties;
+  const handleGhostChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onChangeGhost(e.target.value as GhostSetting);
+    // Release focus so typing does not change the selection
+    e.target.blur();
+  };
 
-      return (
-        <span className="current-word">
-          <span className="cursor" style={cursorStyle}></span>
-          {word.split('').map((char, charIndex) => renderChar(char, charIndex))}
-          {currentInput.length > word.length && (
-            <span className="incorrect-char">
-              {currentInput.slice(word.length)}
-            </span>
-          )}
-          {' '}
-        </span>
-      );
+  const handleCapitalizationChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onChangeTextModes({ ...textModes, capitalization: e.target.value as CapitalizationMode });
+    // Release focus so typing does not change the selection
+    e.target.blur();
+  };
+
+  // Challenges set their own text so everyone with the link types the same
+  const isChallenge = challengeSeed !== null;
+  const textModesTitle = isChallenge ? 'Set by the challenge; leave the challenge to change it' : undefined;
+
+  const handleTextModeToggle = (e: React.ChangeEvent<HTMLInputElement>, textMode: 'punctuation' | 'numbers' | 'symbols') => {
+    onChangeTextModes({ ...textModes, [textMode]: e.target.checked });
+    // Release focus so the new text can be typed right away
+    e.target.blur();
+  };
+
+  const handleSettingToggle = (e: React.ChangeEvent<HTMLInputElement>, onToggle: () => void) => {
+    onToggle();
+    // Release focus so typing goes to the game instead of toggling the setting again
+    e.target.blur();
+  };
+
+  const handleLayoutChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onChangeLayout(e.target.value);
+    // Release focus so typing does not change the selection
+    e.target.blur();
+  };
+
+  const handleThemeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onChangeTheme(e.target.value as ThemeSetting);
+    // Release focus so typing does not change the selection
+    e.target.blur();
+  };
+
+  // Start a word-count game with the custom length, clamped to a sensible range
+  const commitCustomLength = () => {
+    const length = Math.min(MAX_CUSTOM_WORDS, Math.max(1, Math.floor(Number(customLength)) || 1));
+    setCustomLength(String(length));
+    if (gameMode.type !== 'words' || gameMode.length !== length) {
+      onChangeGameMode({ type: 'words', length });
     }
-    
-    // Render upcoming words
-    return (
-      <span>
-        {word.split('').map((char, charIndex) => renderChar(char, charIndex))}
-        {' '}
-      </span>
-    );
   };
 
-  const handleThemeChange = () => {
-    setDarkMode(!darkMode);
-    toggleTheme();
-  }
+  // Timed games only show the current line and the two after it, as words keep streaming in
+  const isTimedGame = gameMode.type === 'time';
 
   return (
     <>
@@ -192,23 +202,109 @@ const GameScreen: React.FC<GameScreenProps> = ({
           <div className="help-icon" onClick={() => setIsHelpOpen(true)}>
               ?
           </div>
-          <div className="words-display" ref={containerRef}>
-            {lines.map((line, lineIdx) => (
-              <div key={lineIdx} className="words-line">
-                {line}
-              </div>
-            ))}
-          </div>
+          <WordDisplay
+            words={words}
+            wordIndex={wordIndex}
+            currentInput={currentInput}
+            completedInputs={completedInputs}
+            targeted={targeted}
+            hideTargets={hideTargets}
+            scrollLines={isTimedGame}
+            ghostPosition={ghostPosition}
+          />
         </div>
         <div className="typing-prompt">
-          Start typing to begin
+          {timeRemaining !== null
+            ? <span className="time-remaining">{Math.ceil(timeRemaining / 1000)}s</span>
+            : 'Start typing to begin'}
+          {ghostSetting !== 'off' && !hasGhost && !isRacingChosenGame && (
+            <span className="ghost-lead">No recorded game of this length to race yet</span>
+          )}
+          {ghostLead !== null && (
+            <span className={`ghost-lead ${ghostLead < 0 ? 'ahead' : ghostLead > 0 ? 'behind' : ''}`}>
+              {ghostLead === 0
+                ? 'Level with the ghost'
+                : `${(Math.abs(ghostLead) / 1000).toFixed(1)}s ${ghostLead < 0 ? 'ahead of' : 'behind'} the ghost`}
+            </span>
+          )}
         </div>
         <div className="game-controls">
+          <label className="game-mode-select">
+            <select
+              value={isCustomLength ? 'custom' : getModeKey(gameMode)}
+              onChange={handleGameModeChange}
+            >
+              {gameModes.filter(mode => mode.type === 'words').map(mode => (
+                <option key={getModeKey(mode)} value={getModeKey(mode)}>
+                  {formatGameMode(mode)}
+                </option>
+              ))}
+              <option value="custom">custom words</option>
+              {gameModes.filter(mode => mode.type === 'time').map(mode => (
+                <option key={getModeKey(mode)} value={getModeKey(mode)}>
+                  {formatGameMode(mode)}
+                </option>
+              ))}
+            </select>
+          </label>
+          {isCustomLength && (
+            <label className="custom-length-input">
+              <input
+                type="number"
+                min={1}
+                max={MAX_CUSTOM_WORDS}
+                value={customLength}
+                onChange={(e) => setCustomLength(e.target.value)}
+                onBlur={commitCustomLength}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.currentTarget.blur();
+                  }
+                }}
+              />
+              <span className="toggle-label">words</span>
+            </label>
+          )}
+          <label className="capitalization-select" title={textModesTitle}>
+            <span className="toggle-label">Caps</span>
+            <select value={textModes.capitalization} onChange={handleCapitalizationChange} disabled={isChallenge || textModes.symbols}>
+              <option value="off">off</option>
+              <option value="sentence">sentence case</option>
+              <option value="random">random caps</option>
+            </select>
+          </label>
+          <label className="punctuation-toggle" title={textModesTitle}>
+            <input
+              type="checkbox"
+              checked={textModes.punctuation}
+              disabled={isChallenge || textModes.symbols}
+              onChange={(e) => handleTextModeToggle(e, 'punctuation')}
+            />
+            <span className="toggle-label">Punctuation</span>
+          </label>
+          <label className="numbers-toggle" title={textModesTitle}>
+            <input
+              type="checkbox"
+              checked={textModes.numbers}
+              disabled={isChallenge || textModes.symbols}
+              onChange={(e) => handleTextModeToggle(e, 'numbers')}
+            />
+            <span className="toggle-label">Numbers</span>
+          </label>
+          <label className="symbols-toggle" title={textModesTitle}>
+            <input
+              type="checkbox"
+              checked={textModes.symbols}
+              disabled={isChallenge}
+              onChange={(e) => handleTextModeToggle(e, 'symbols')}
+            />
+            <span className="toggle-label">Symbol Drill</span>
+          </label>
           <label className="strict-mode-toggle">
             <input
               type="checkbox"
               checked={strictMode}
-              onChange={onToggleStrictMode}
+              onChange={(e) => handleSettingToggle(e, onToggleStrictMode)}
             />
             <span className="toggle-label">Strict Mode</span>
           </label>
@@ -216,27 +312,79 @@ const GameScreen: React.FC<GameScreenProps> = ({
             <input
               type="checkbox"
               checked={hideTargets}
-              onChange={onToggleHideTargets}
+              onChange={(e) => handleSettingToggle(e, onToggleHideTargets)}
             />
             <span className="toggle-label">Hide Targets</span>
           </label>
-          <label className="dark-mode-toggle">
-            <input
-              type="checkbox"
-              checked={isDarkMode}
-              onChange={handleThemeChange}
-            />
-            <span className="toggle-label">Dark Mode</span>
+          {challengeSeed !== null ? (
+            <span className="challenge-info">
+              <span className="toggle-label">Challenge {challengeSeed}</span>
+              <button className="challenge-button" onClick={onShareChallenge}>Copy Link</button>
+              <button className="challenge-button" onClick={onLeaveChallenge}>Leave</button>
+            </span>
+          ) : (
+            <button className="challenge-button" onClick={onShareChallenge}>
+              Challenge Link
+            </button>
+          )}
+          <label className="ghost-select">
+            <span className="toggle-label">Ghost</span>
+            <select value={isRacingChosenGame ? 'chosen' : ghostSetting} onChange={handleGhostChange}>
+              <option value="off">off</option>
+              <option value="best">personal best</option>
+              <option value="recent">most recent</option>
+              {isRacingChosenGame && <option value="chosen">chosen game</option>}
+            </select>
           </label>
+          <label className="layout-select">
+            <span className="toggle-label">Layout</span>
+            <select value={keyboardLayout.id} onChange={handleLayoutChange}>
+              {[...BUILT_IN_LAYOUTS, ...customLayouts].map(layout => (
+                <option key={layout.id} value={layout.id}>{layout.name}</option>
+              ))}
+            </select>
+          </label>
+          <button className="edit-layouts-button" onClick={() => setIsLayoutEditorOpen(true)}>
+            Edit Layouts
+          </button>
+          <label className="theme-select">
+            <span className="toggle-label">Theme</span>
+            <select value={isMissingCustomTheme ? 'system' : theme} onChange={handleThemeChange}>
+              <option value="light">light</option>
+              <option value="dark">dark</option>
+              <option value="system">system</option>
+              <option value="high-contrast">high contrast</option>
+              <option value="color-blind">color-blind safe</option>
+              {customThemes.map(customTheme => (
+                <option key={customTheme.id} value={getCustomThemeSetting(customTheme.id)}>
+                  {customTheme.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button className="edit-themes-button" onClick={() => setIsThemeEditorOpen(true)}>
+            Edit Themes
+          </button>
         </div>
       </div>
 
+      {suggestedLayout && (
+        <div className="layout-hint" role="status">
+          <span>
+            Your key presses match the {suggestedLayout.name} layout, but {keyboardLayout.name} is selected.
+            Switch so letters and fingers are analyzed on the right keys; your progress so far stays with {keyboardLayout.name}.
+          </span>
+          <button className="challenge-button" onClick={() => onChangeLayout(suggestedLayout.id)}>Use {suggestedLayout.name}</button>
+          <button className="challenge-button" onClick={() => setDismissedLayoutId(suggestedLayout.id)}>Dismiss</button>
+        </div>
+      )}
+
       {!hideTargets && timingHistory.letters && Object.keys(timingHistory.letters).length > 0 && (
         <div className="targeting-info">
           <div className="targeting-section letters">
             <h4>Targeted Letters:</h4>
             <div className="targeted-items">
-              {getTargetedPatterns(timingHistory).letters.map(letter => (
+              {targeted.letters.map(letter => (
                 <span key={letter} className="targeted-item">
                   {letter === ' ' ? '␣' : letter}
                 </span>
@@ -246,17 +394,37 @@ const GameScreen: React.FC<GameScreenProps> = ({
           <div className="targeting-section bigrams">
             <h4>Targeted Bigrams:</h4>
             <div className="targeted-items">
-              {getTargetedPatterns(timingHistory).bigrams.map(bigram => (
+              {targeted.bigrams.map(bigram => (
                 <span key={bigram} className="targeted-item">
                   {bigram}
                 </span>
               ))}
             </div>
           </div>
+          <div className="targeting-section trigrams">
+            <h4>Targeted Trigrams:</h4>
+            <div className="targeted-items">
+              {targeted.trigrams.map(trigram => (
+                <span key={trigram} className="targeted-item">
+                  {trigram}
+                </span>
+              ))}
+            </div>
+          </div>
+          <div className="targeting-section finger">
+            <h4>Targeted Finger:</h4>
+            <div className="targeted-items">
+              {targeted.finger !== null && (
+                <span className="targeted-item">
+                  {formatFinger(targeted.finger)}
+                </span>
+              )}
+            </div>
+          </div>
           <div className="targeting-section words">
             <h4>Targeted Words:</h4>
             <div className="targeted-items">
-              {getTargetedPatterns(timingHistory).words.map(word => (
+              {targeted.words.map(word => (
                 <span key={word} className="targeted-item">
                   {word}
                 </span>
@@ -266,6 +434,22 @@ const GameScreen: React.FC<GameScreenProps> = ({
         </div>
       )}
       <HelpModal isOpen={isHelpOpen} onClose={() => setIsHelpOpen(false)} />
+      <ThemeEditorModal
+        isOpen={isThemeEditorOpen}
+        theme={theme}
+        customThemes={customThemes}
+        onChangeTheme={onChangeTheme}
+        onChangeCustomThemes={onChangeCustomThemes}
+        onClose={() => setIsThemeEditorOpen(false)}
+      />
+      <LayoutEditorModal
+        isOpen={isLayoutEditorOpen}
+        keyboardLayout={keyboardLayout}
+        customLayouts={customLayouts}
+        onChangeLayout={onChangeLayout}
+        onChangeCustomLayouts={onChangeCustomLayouts}
+        onClose={() => setIsLayoutEditorOpen(false)}
+      />
     </>
   );
 };
@@ -21,17 +21,29 @@ export const HelpModal: React.FC<HelpModalProps> = ({ isOpen, onClose }) => {
 
                 <h3>Features</h3>
                 <ul>
+                    <li><strong>Game Mode:</strong> Type 10, 25, 50, 100 or a custom number of words, or race the clock in a 15, 30, 60 or 120 second test</li>
                     <li><strong>Strict Mode:</strong> Must complete words perfectly before moving on</li>
                     <li><strong>Hide Targets:</strong> Hide highlighted problem areas</li>
-                    <li><strong>Dark Mode:</strong> Toggle dark/light theme</li>
+                    <li><strong>Caps, Punctuation and Numbers:</strong> Practice capitals in sentence case or random caps, punctuation and numbers. Your weakest symbols come up more often. Challenge games use the text modes they were shared with.</li>
+                    <li><strong>Symbol Drill:</strong> Type numbers, dates, IP addresses, prices and code symbols like {'{}[]()<>=;:&|'} instead of words. Each digit and symbol gets its own statistics, and the weakest are drilled more often.</li>
+                    <li><strong>Ghost:</strong> Race a ghost caret replaying your personal best or most recent game of the same length on the same words. Pick any recorded game to race with "Race" in the overall results.</li>
+                    <li><strong>Challenge Link:</strong> Play a test with words from a shareable seed and copy a link so others can type exactly the same words, with the same caps, punctuation, numbers or symbol drill</li>
+                    <li><strong>Layout:</strong> Pick QWERTY, Dvorak, Colemak, Workman or a custom layout from "Edit Layouts". Your progress is tracked separately on each layout. If your key presses match another layout, you are offered to switch to it.</li>
+                    <li><strong>Theme:</strong> Choose light, dark, high contrast, color-blind safe, or follow the system color scheme. Mistyped characters are also struck through.</li>
+                    <li><strong>Edit Themes:</strong> Create your own color themes with a live preview, and share them as JSON files</li>
                 </ul>
 
                 <h3>Performance Tracking</h3>
                 <ul>
                     <li>Tracks your typing speed (WPM)</li>
                     <li>Monitors accuracy</li>
-                    <li>Identifies problem letters and combinations</li>
+                    <li>Identifies problem letters, bigrams and trigrams (slow trigrams have a wavy underline)</li>
                     <li>Shows targeted practice areas based on your performance</li>
+                    <li>Colors a keyboard by how fast or how accurately you type each key, by the letter typed or by the physical key struck</li>
+                    <li>Compares how long characters typed with Shift take against the rest</li>
+                    <li>Shows which letters you type in place of others, so common swaps can be drilled</li>
+                    <li>Shows your slowest and most error-prone fingers and how same-finger bigrams compare to alternating hands; your slowest finger gets extra practice</li>
+                    <li>Replay a finished game to see where you hesitated, mistyped and corrected</li>
                 </ul>
                 </div>
             </div>
@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { KeyboardLayout } from '../../types/types';
+import { LAYOUT_ROW_NAMES, createCustomLayout, getUniqueLayoutName, getKeyPosition, validateLayoutRows } from '../../utils/keyboardLayouts';
+
+interface LayoutEditorModalProps {
+    isOpen: boolean;
+    keyboardLayout: KeyboardLayout;
+    customLayouts: KeyboardLayout[];
+    onChangeLayout: (layoutId: string) => void;
+    onChangeCustomLayouts: (customLayouts: KeyboardLayout[]) => void;
+    onClose: () => void;
+}
+
+export const LayoutEditorModal: React.FC<LayoutEditorModalProps> = ({
+    isOpen,
+    keyboardLayout,
+    customLayouts,
+    onChangeLayout,
+    onChangeCustomLayouts,
+    onClose
+}) => {
+    // Id of the custom layout being edited
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+
+    // Unsaved name and rows of the layout being edited
+    const [draft, setDraft] = useState<{ name: string; rows: string[] } | null>(null);
+
+    const selectedLayout = customLayouts.find(layout => layout.id === selectedId);
+    const hasChanges = !!draft && !!selectedLayout && (
+        draft.name !== selectedLayout.name ||
+        draft.rows.some((row, index) => row !== selectedLayout.rows[index])
+    );
+    const rowErrors = draft ? validateLayoutRows(draft.rows) : [];
+
+    const selectLayout = (layout: KeyboardLayout | null) => {
+        setSelectedId(layout ? layout.id : null);
+        setDraft(layout ? { name: layout.name, rows: [...layout.rows] } : null);
+    };
+
+    // Whether the editor was open on the last render
+    const [wasOpen, setWasOpen] = useState(false);
+
+    // Start editing the layout in use when the editor opens if it is a custom one, or the first custom layout
+    if (isOpen !== wasOpen) {
+        setWasOpen(isOpen);
+        if (isOpen) {
+            selectLayout(customLayouts.find(layout => layout.id === keyboardLayout.id) || customLayouts[0] || null);
+        }
+    }
+
+    // Ask before throwing away unsaved edits
+    const confirmDiscard = () => {
+        return !hasChanges || window.confirm('Discard unsaved changes to this layout?');
+    };
+
+    const handleSelect = (id: string) => {
+        if (!confirmDiscard()) return;
+        selectLayout(customLayouts.find(layout => layout.id === id) || null);
+    };
+
+    // New layouts start from the layout in use
+    const handleNew = () => {
+        if (!confirmDiscard()) return;
+        const layout = createCustomLayout(getUniqueLayoutName(`${keyboardLayout.name} custom`, customLayouts), keyboardLayout.rows);
+        onChangeCustomLayouts([...customLayouts, layout]);
+        selectLayout(layout);
+    };
+
+    const handleDelete = () => {
+        if (!selectedLayout) return;
+        if (!window.confirm(`Are you sure you want to delete the layout "${selectedLayout.name}" and the progress recorded on it?`)) return;
+
+        const remainingLayouts = customLayouts.filter(layout => layout.id !== selectedLayout.id);
+        onChangeCustomLayouts(remainingLayouts);
+        selectLayout(remainingLayouts[0] || null);
+    };
+
+    // Save the draft and start typing on it
+    const handleSave = () => {
+        if (!selectedLayout || !draft) return;
+
+        const name = draft.name.trim();
+        if (!name) {
+            window.alert('The layout needs a name.');
+            return;
+        }
+        if (getUniqueLayoutName(name, customLayouts.filter(layout => layout.id !== selectedLayout.id)) !== name) {
+            window.alert(`A layout named "${name}" already exists.`);
+            return;
+        }
+
+        onChangeCustomLayouts(customLayouts.map(layout => layout.id === selectedLayout.id
+            ? { ...layout, name, rows: [...draft.rows] }
+            : layout));
+        onChangeLayout(selectedLayout.id);
+        setDraft({ ...draft, name });
+    };
+
+    const handleClose = () => {
+        if (!confirmDiscard()) return;
+        onClose();
+    };
+
+    const updateRow = (index: number, value: string) => {
+        if (draft) {
+            setDraft({ ...draft, rows: draft.rows.map((row, rowIndex) => rowIndex === index ? value : row) });
+        }
+    };
+
+    if (!isOpen) return null;
+
+    const previewLayout: KeyboardLayout = { id: 'preview', name: draft?.name || '', rows: draft?.rows || [] };
+
+    return (
+        <div className="modal-overlay">
+            <div className="modal-content theme-editor layout-editor">
+                <button className="modal-close" onClick={handleClose}>&times;</button>
+                <h2>Keyboard Layouts</h2>
+
+                <div className="theme-editor-toolbar">
+                    <select
+                        value={selectedId || ''}
+                        onChange={(e) => handleSelect(e.target.value)}
+                        disabled={customLayouts.length === 0}
+                    >
+                        {customLayouts.length === 0 && <option value="">No custom layouts</option>}
+                        {customLayouts.map(layout => (
+                            <option key={layout.id} value={layout.id}>{layout.name}</option>
+                        ))}
+                    </select>
+                    <button className="theme-editor-button" onClick={handleNew}>New</button>
+                    <button className="theme-editor-button danger" onClick={handleDelete} disabled={!selectedLayout}>Delete</button>
+                </div>
+
+                {draft ? (
+                    <>
+                        <label className="theme-editor-name">
+                            <span>Name</span>
+                            <input
+                                type="text"
+                                value={draft.name}
+                                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                            />
+                        </label>
+
+                        <div className="layout-editor-rows">
+                            {LAYOUT_ROW_NAMES.map((rowName, index) => (
+                                <label key={rowName} className="layout-editor-row">
+                                    <span>{rowName}</span>
+                                    <input
+                                        type="text"
+                                        value={draft.rows[index] || ''}
+                                        onChange={(e) => updateRow(index, e.target.value)}
+                                        spellCheck={false}
+                                    />
+                                </label>
+                            ))}
+                        </div>
+
+                        <div className="layout-preview">
+                            {previewLayout.rows.map((row, rowIndex) => (
+                                <div key={rowIndex} className={`layout-preview-row row-${rowIndex}`}>
+                                    {row.split('').map((key, keyIndex) => {
+                                        const position = getKeyPosition(previewLayout, key);
+                                        return (
+                                            <span
+                                                key={keyIndex}
+                                                className={`layout-preview-key ${position?.finger || ''}`}
+                                                title={position ? `${position.finger.replace('-', ' ')} finger` : undefined}
+                                            >
+                                                {key}
+                                            </span>
+                                        );
+                                    })}
+                                </div>
+                            ))}
+                        </div>
+
+                        {rowErrors.length > 0 && (
+                            <div className="contrast-warnings" role="alert">
+                                <strong>This layout cannot be saved yet:</strong>
+                                <ul>
+                                    {rowErrors.map(error => <li key={error}>{error}</li>)}
+                                </ul>
+                            </div>
+                        )}
+
+                        <div className="button-row">
+                            <button className="theme-editor-button" onClick={() => selectLayout(selectedLayout || null)} disabled={!hasChanges}>
+                                Revert
+                            </button>
+                            <button className="theme-editor-button primary" onClick={handleSave} disabled={rowErrors.length > 0}>
+                                Save and Use
+                            </button>
+                        </div>
+                    </>
+                ) : (
+                    <p className="help-section">
+                        Create a layout to type the keys of each row in your own order. New layouts start from the layout in use.
+                        Fingers are assigned by column, as on a standard keyboard. Progress is tracked separately for every layout.
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+};
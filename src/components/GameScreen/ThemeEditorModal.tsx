@@ -0,0 +1,248 @@
+import { useEffect, useRef, useState } from 'react';
+import { CustomTheme, ThemeSetting, ThemeTokens } from '../../types/types';
+import { themes, THEME_TOKENS, isColorToken, getThemeTokens, getCustomThemeSetting, findCustomTheme, previewTheme } from '../../utils/theme';
+import { createCustomTheme, getUniqueThemeName, getContrastWarnings, createThemeExport, parseThemeExport } from '../../utils/customThemes';
+import { downloadFile, getDatedFilename } from '../../utils/dataExport';
+
+interface ThemeEditorModalProps {
+    isOpen: boolean;
+    theme: ThemeSetting;
+    customThemes: CustomTheme[];
+    onChangeTheme: (theme: ThemeSetting) => void;
+    onChangeCustomThemes: (customThemes: CustomTheme[]) => void;
+    onClose: () => void;
+}
+
+export const ThemeEditorModal: React.FC<ThemeEditorModalProps> = ({
+    isOpen,
+    theme,
+    customThemes,
+    onChangeTheme,
+    onChangeCustomThemes,
+    onClose
+}) => {
+    // Id of the custom theme being edited
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+
+    // Unsaved name and tokens of the theme being edited, previewed live
+    const [draft, setDraft] = useState<{ name: string; tokens: ThemeTokens } | null>(null);
+
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const selectedTheme = customThemes.find(customTheme => customTheme.id === selectedId);
+    const hasChanges = !!draft && !!selectedTheme && (
+        draft.name !== selectedTheme.name ||
+        THEME_TOKENS.some(token => draft.tokens[token] !== selectedTheme.tokens[token])
+    );
+    const contrastWarnings = draft ? getContrastWarnings(draft.tokens) : [];
+
+    // Preview the draft on the whole page while the editor is open
+    useEffect(() => {
+        previewTheme(isOpen && draft ? draft.tokens : null);
+    }, [isOpen, draft]);
+
+    // Stop previewing if the editor goes away without being closed
+    useEffect(() => () => previewTheme(null), []);
+
+    const selectTheme = (customTheme: CustomTheme | null) => {
+        setSelectedId(customTheme ? customTheme.id : null);
+        setDraft(customTheme ? { name: customTheme.name, tokens: { ...themes.light, ...customTheme.tokens } } : null);
+    };
+
+    // Whether the editor was open on the last render
+    const [wasOpen, setWasOpen] = useState(false);
+
+    // Start editing the theme in use when the editor opens, or the first custom theme
+    if (isOpen !== wasOpen) {
+        setWasOpen(isOpen);
+        if (isOpen) {
+            selectTheme(findCustomTheme(theme) || customThemes[0] || null);
+        }
+    }
+
+    // Ask before throwing away unsaved edits
+    const confirmDiscard = () => {
+        return !hasChanges || window.confirm('Discard unsaved changes to this theme?');
+    };
+
+    const addThemes = (newThemes: CustomTheme[]) => {
+        onChangeCustomThemes([...customThemes, ...newThemes]);
+        selectTheme(newThemes[0]);
+    };
+
+    const handleSelect = (id: string) => {
+        if (!confirmDiscard()) return;
+        selectTheme(customThemes.find(customTheme => customTheme.id === id) || null);
+    };
+
+    // New themes start from the theme in use
+    const handleNew = () => {
+        if (!confirmDiscard()) return;
+        addThemes([createCustomTheme(getUniqueThemeName('My theme', customThemes), getThemeTokens(theme))]);
+    };
+
+    const handleDuplicate = () => {
+        if (!selectedTheme || !confirmDiscard()) return;
+        addThemes([createCustomTheme(getUniqueThemeName(`${selectedTheme.name} copy`, customThemes), selectedTheme.tokens)]);
+    };
+
+    const handleDelete = () => {
+        if (!selectedTheme) return;
+        if (!window.confirm(`Are you sure you want to delete the theme "${selectedTheme.name}"?`)) return;
+
+        const remainingThemes = customThemes.filter(customTheme => customTheme.id !== selectedTheme.id);
+        onChangeCustomThemes(remainingThemes);
+        if (theme === getCustomThemeSetting(selectedTheme.id)) {
+            onChangeTheme('system');
+        }
+        selectTheme(remainingThemes[0] || null);
+    };
+
+    // Save the draft and start using it
+    const handleSave = () => {
+        if (!selectedTheme || !draft) return;
+
+        const name = draft.name.trim();
+        if (!name) {
+            window.alert('The theme needs a name.');
+            return;
+        }
+        if (customThemes.some(customTheme => customTheme.id !== selectedTheme.id && customTheme.name.toLowerCase() === name.toLowerCase())) {
+            window.alert(`A theme named "${name}" already exists.`);
+            return;
+        }
+
+        onChangeCustomThemes(customThemes.map(customTheme => customTheme.id === selectedTheme.id
+            ? { ...customTheme, name, tokens: { ...draft.tokens } }
+            : customTheme));
+        onChangeTheme(getCustomThemeSetting(selectedTheme.id));
+        setDraft({ ...draft, name });
+    };
+
+    const handleClose = () => {
+        if (!confirmDiscard()) return;
+        onClose();
+    };
+
+    const handleExport = () => {
+        downloadFile(getDatedFilename('themes', 'json'), createThemeExport(customThemes), 'application/json');
+    };
+
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file || !confirmDiscard()) return;
+
+        try {
+            const imported: CustomTheme[] = [];
+            parseThemeExport(await file.text()).forEach(({ name, tokens }) => {
+                imported.push(createCustomTheme(getUniqueThemeName(name, [...customThemes, ...imported]), tokens));
+            });
+            addThemes(imported);
+        } catch (error) {
+            window.alert(`Could not import themes: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+
+    const updateToken = (token: string, value: string) => {
+        if (draft) {
+            setDraft({ ...draft, tokens: { ...draft.tokens, [token]: value } });
+        }
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="modal-overlay">
+            <div className="modal-content theme-editor">
+                <button className="modal-close" onClick={handleClose}>&times;</button>
+                <h2>Custom Themes</h2>
+
+                <div className="theme-editor-toolbar">
+                    <select
+                        value={selectedId || ''}
+                        onChange={(e) => handleSelect(e.target.value)}
+                        disabled={customThemes.length === 0}
+                    >
+                        {customThemes.length === 0 && <option value="">No custom themes</option>}
+                        {customThemes.map(customTheme => (
+                            <option key={customTheme.id} value={customTheme.id}>{customTheme.name}</option>
+                        ))}
+                    </select>
+                    <button className="theme-editor-button" onClick={handleNew}>New</button>
+                    <button className="theme-editor-button" onClick={handleDuplicate} disabled={!selectedTheme}>Duplicate</button>
+                    <button className="theme-editor-button danger" onClick={handleDelete} disabled={!selectedTheme}>Delete</button>
+                    <button className="theme-editor-button" onClick={handleExport} disabled={customThemes.length === 0}>Export</button>
+                    <button className="theme-editor-button" onClick={() => importInputRef.current?.click()}>Import</button>
+                    <input
+                        ref={importInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        onChange={handleImportFile}
+                        hidden
+                    />
+                </div>
+
+                {draft ? (
+                    <>
+                        <label className="theme-editor-name">
+                            <span>Name</span>
+                            <input
+                                type="text"
+                                value={draft.name}
+                                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                            />
+                        </label>
+
+                        <div className="theme-editor-tokens">
+                            {THEME_TOKENS.map(token => (
+                                <label key={token} className="theme-editor-token">
+                                    <span>{token}</span>
+                                    {isColorToken(token) ? (
+                                        <input
+                                            type="color"
+                                            value={draft.tokens[token]}
+                                            onChange={(e) => updateToken(token, e.target.value)}
+                                        />
+                                    ) : (
+                                        <input
+                                            type="text"
+                                            value={draft.tokens[token]}
+                                            onChange={(e) => updateToken(token, e.target.value)}
+                                        />
+                                    )}
+                                </label>
+                            ))}
+                        </div>
+
+                        {contrastWarnings.length > 0 && (
+                            <div className="contrast-warnings" role="alert">
+                                <strong>Low contrast:</strong> text in these colors may be hard to read (WCAG AA needs 4.5:1).
+                                <ul>
+                                    {contrastWarnings.map(({ foreground, background, ratio }) => (
+                                        <li key={`${foreground}-${background}`}>
+                                            {foreground} on {background}: {ratio}:1
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+
+                        <div className="button-row">
+                            <button className="theme-editor-button" onClick={() => selectTheme(selectedTheme || null)} disabled={!hasChanges}>
+                                Revert
+                            </button>
+                            <button className="theme-editor-button primary" onClick={handleSave}>
+                                Save and Use
+                            </button>
+                        </div>
+                    </>
+                ) : (
+                    <p className="help-section">
+                        Create a theme to pick your own colors. New themes start from the theme in use.
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,229 @@
+import React, { useRef, useEffect, useState, useCallback } from 'react';
+import { CaretPosition, TargetedPatterns } from '../../types/types';
+
+// Nothing to highlight, used when no targeted patterns are given
+const NO_TARGETS: TargetedPatterns = { letters: [], bigrams: [], trigrams: [], words: [], finger: null };
+
+interface WordDisplayProps {
+  words: string[];
+  wordIndex: number;
+  currentInput: string;
+  completedInputs: string[];
+  // Patterns the word list favors, highlighted unless targets are hidden; null when there are none to show
+  targeted: TargetedPatterns | null;
+  hideTargets: boolean;
+  // Only show the current line and the two after it
+  scrollLines: boolean;
+  // Extra class names for characters, keyed by "wordIndex:charIndex"
+  charMarks?: { [position: string]: string };
+  // Position of the ghost caret when racing a recorded game
+  ghostPosition?: CaretPosition | null;
+}
+
+const WordDisplay: React.FC<WordDisplayProps> = ({
+  words,
+  wordIndex,
+  currentInput,
+  completedInputs,
+  targeted,
+  hideTargets,
+  scrollLines,
+  charMarks,
+  ghostPosition
+}) => {
+  // Reference to the container div for calculating word wrapping
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Array of lines containing word elements after word wrapping calculation
+  const [lines, setLines] = useState<React.ReactElement[][]>([]);
+
+  // Index of the line holding the current word, used to scroll timed games
+  const [currentLineIndex, setCurrentLineIndex] = useState(0);
+
+  // Render a single word with appropriate styling based on typing progress
+  const renderWord = useCallback((word: string, index: number) => {
+    const { letters, bigrams, trigrams, words: targetWords } = targeted || NO_TARGETS;
+
+    // Track indices of characters that are part of targeted bigrams
+    const bigramIndices = new Set<number>();
+    for (let i = 0; i < word.length - 1; i++) {
+      const bigram = word.slice(i, i + 2);
+      if (bigrams.includes(bigram)) {
+        bigramIndices.add(i);
+        bigramIndices.add(i + 1);
+      }
+    }
+
+    // Track indices of characters that are part of targeted trigrams
+    const trigramIndices = new Set<number>();
+    for (let i = 0; i < word.length - 2; i++) {
+      if (trigrams.includes(word.slice(i, i + 3))) {
+        trigramIndices.add(i);
+        trigramIndices.add(i + 1);
+        trigramIndices.add(i + 2);
+      }
+    }
+
+    // Render a single character with appropriate styling
+    const renderChar = (char: string, charIndex: number) => {
+      let className = '';
+      const isTargetedLetter = letters.includes(char);
+      const isInTargetedBigram = bigramIndices.has(charIndex);
+      const isInTargetedWord = targetWords.includes(word);
+
+      // Apply styling based on typing progress and correctness
+      if (index < wordIndex) {
+        const typedInput = completedInputs[index];
+        className = typedInput?.[charIndex] === char ? 'correct-char' : 'incorrect-char';
+      } else if (index === wordIndex) {
+        if (charIndex < currentInput.length) {
+          className = currentInput[charIndex] === char ? 'correct-char' : 'incorrect-char';
+        } else {
+          className = 'untyped-char';
+        }
+      } else {
+        className = 'untyped-char';
+      }
+
+      // Apply additional styling for targeted patterns
+      if (!hideTargets) {
+        if (isTargetedLetter) {
+          className += ' targeted-pattern';
+        }
+        if (isInTargetedBigram) {
+          className += ' targeted-pattern bigram';
+        }
+        if (trigramIndices.has(charIndex)) {
+          className += ' targeted-pattern trigram';
+        }
+        if (isInTargetedWord) {
+          className += ' targeted-word';
+        }
+      }
+
+      const mark = charMarks?.[`${index}:${charIndex}`];
+      if (mark) {
+        className += ` ${mark}`;
+      }
+
+      return (
+        <span key={charIndex} className={className}>
+          {char}
+        </span>
+      );
+    };
+
+    const ghostCursor = ghostPosition?.wordIndex === index && (
+      <span className="ghost-cursor" style={{ '--cursor-offset': `${0.55 * ghostPosition.caret}em` } as React.CSSProperties}></span>
+    );
+
+    // Render completed words
+    if (index < wordIndex) {
+      return (
+        <span>
+          {ghostCursor}
+          {word.split('').map((char, charIndex) => renderChar(char, charIndex))}
+          {' '}
+        </span>
+      );
+    }
+
+    // Render current word with cursor
+    if (index === wordIndex) {
+      const cursorOffset = 0.55 * currentInput.length;
+
+      const cursorStyle = {
+        '--cursor-offset': `${cursorOffset}em`
+      } as React.CSSProperties;
+
+      return (
+        <span className="current-word">
+          <span className="cursor" style={cursorStyle}></span>
+          {ghostCursor}
+          {word.split('').map((char, charIndex) => renderChar(char, charIndex))}
+          {currentInput.length > word.length && (
+            <span className="incorrect-char">
+              {currentInput.slice(word.length)}
+            </span>
+          )}
+          {' '}
+        </span>
+      );
+    }
+
+    // Render upcoming words
+    return (
+      <span>
+        {ghostCursor}
+        {word.split('').map((char, charIndex) => renderChar(char, charIndex))}
+        {' '}
+      </span>
+    );
+  }, [targeted, wordIndex, currentInput, completedInputs, hideTargets, charMarks, ghostPosition]);
+
+  // Calculate word wrapping based on container width
+  useEffect(() => {
+    const calculateLines = () => {
+      if (!containerRef.current) return;
+
+      const containerWidth = containerRef.current.clientWidth + 10;
+      let currentLine: React.ReactElement[] = [];
+      let currentLineWidth = 0;
+      const newLines: React.ReactElement[][] = [];
+      let newCurrentLineIndex = 0;
+      const charWidth = 15;
+      const spaceWidth = charWidth;
+
+      words.forEach((word, idx) => {
+        const wordElement = (
+          <span key={idx} className="word-wrapper">
+            {renderWord(word, idx)}
+          </span>
+        );
+
+        const wordWidth = word.length * charWidth;
+        const totalWidth = currentLineWidth + wordWidth + (currentLine.length > 0 ? spaceWidth : 0);
+
+        if (totalWidth > containerWidth && currentLine.length > 0) {
+          newLines.push([...currentLine]);
+          currentLine = [wordElement];
+          currentLineWidth = wordWidth;
+        } else {
+          currentLine.push(wordElement);
+          currentLineWidth = totalWidth;
+        }
+
+        if (idx === wordIndex) {
+          newCurrentLineIndex = newLines.length;
+        }
+      });
+
+      if (currentLine.length > 0) {
+        newLines.push(currentLine);
+      }
+
+      setLines(newLines);
+      setCurrentLineIndex(newCurrentLineIndex);
+    };
+
+    calculateLines();
+    window.addEventListener('resize', calculateLines);
+    return () => window.removeEventListener('resize', calculateLines);
+  }, [words, wordIndex, renderWord]);
+
+  const visibleLines = scrollLines
+    ? lines.slice(currentLineIndex, currentLineIndex + 3)
+    : lines;
+
+  return (
+    <div className="words-display" ref={containerRef}>
+      {visibleLines.map((line, lineIdx) => (
+        <div key={lineIdx} className="words-line">
+          {line}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default WordDisplay;
@@ -0,0 +1,94 @@
+import React from 'react';
+import { Profile } from '../../types/types';
+import './ProfileBar.css';
+
+interface ProfileBarProps {
+  profiles: Profile[];
+  activeProfileId: string;
+  onSwitchProfile: (id: string) => void;
+  onCreateProfile: (name: string) => void;
+  onRenameProfile: (id: string, name: string) => void;
+  onDeleteProfile: (id: string) => void;
+  onCopyProfile: (id: string, name: string) => void;
+}
+
+const ProfileBar: React.FC<ProfileBarProps> = ({
+  profiles,
+  activeProfileId,
+  onSwitchProfile,
+  onCreateProfile,
+  onRenameProfile,
+  onDeleteProfile,
+  onCopyProfile
+}) => {
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId);
+
+  // Ask for a profile name, rejecting blanks and names already in use by another profile
+  const promptForName = (message: string, defaultName: string, ignoreId?: string): string | null => {
+    const name = window.prompt(message, defaultName)?.trim();
+    if (!name) return null;
+    if (profiles.some(profile => profile.id !== ignoreId && profile.name.toLowerCase() === name.toLowerCase())) {
+      window.alert(`A profile named "${name}" already exists.`);
+      return null;
+    }
+    return name;
+  };
+
+  const handleCreate = () => {
+    const name = promptForName('Name for the new profile:', '');
+    if (name) onCreateProfile(name);
+  };
+
+  const handleRename = () => {
+    if (!activeProfile) return;
+    const name = promptForName('New name for this profile:', activeProfile.name, activeProfile.id);
+    if (name) onRenameProfile(activeProfile.id, name);
+  };
+
+  const handleCopy = () => {
+    if (!activeProfile) return;
+    const name = promptForName(`Name for the copy of "${activeProfile.name}":`, `${activeProfile.name} copy`);
+    if (name) onCopyProfile(activeProfile.id, name);
+  };
+
+  const handleDelete = () => {
+    if (!activeProfile || profiles.length < 2) return;
+    if (window.confirm(`Are you sure you want to delete the profile "${activeProfile.name}" and all its typing data? This action cannot be undone.`)) {
+      onDeleteProfile(activeProfile.id);
+    }
+  };
+
+  return (
+    <div className="profile-bar">
+      <label className="profile-select">
+        <span className="toggle-label">Profile</span>
+        <select
+          value={activeProfileId}
+          onChange={(e) => {
+            onSwitchProfile(e.target.value);
+            e.target.blur();
+          }}
+        >
+          {profiles.map(profile => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <button className="profile-button" onClick={handleCreate}>New</button>
+      <button className="profile-button" onClick={handleRename}>Rename</button>
+      <button className="profile-button" onClick={handleCopy}>Copy</button>
+      <button
+        className="profile-button danger"
+        onClick={handleDelete}
+        disabled={profiles.length < 2}
+        title={profiles.length < 2 ? 'The last profile cannot be deleted' : undefined}
+      >
+        Delete
+      </button>
+    </div>
+  );
+};
+
+export default ProfileBar;
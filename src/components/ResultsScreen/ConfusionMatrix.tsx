@@ -0,0 +1,76 @@
+import React from 'react';
+import { LetterMistake } from '../../types/types';
+import { getConfusionMatrix, getCommonSwaps } from '../../utils/confusions';
+
+interface ConfusionMatrixProps {
+  confusions: LetterMistake[];
+}
+
+// Shows a space as a visible symbol
+const formatLetter = (letter: string) => letter === ' ' ? '␣' : letter;
+
+const ConfusionMatrix: React.FC<ConfusionMatrixProps> = ({ confusions }) => {
+  if (confusions.length === 0) {
+    return <p className="confusion-empty">No mistyped letters yet</p>;
+  }
+
+  const { expected, typed, counts, maxCount } = getConfusionMatrix(confusions);
+  const commonSwaps = getCommonSwaps(confusions);
+
+  return (
+    <div className="confusion-analysis">
+      {commonSwaps.length > 0 && (
+        <div className="common-swaps">
+          <h4>Common Swaps</h4>
+          <ul>
+            {commonSwaps.map(swap => (
+              <li key={`${swap.expected}${swap.typed}`}>
+                <span className="letter">{formatLetter(swap.expected)}</span> typed as{' '}
+                <span className="letter">{formatLetter(swap.typed)}</span> {swap.count} times
+              </li>
+            ))}
+          </ul>
+          <p className="confusion-note">Words using both letters of a common swap come up more often in new games.</p>
+        </div>
+      )}
+
+      <div className="confusion-matrix">
+        <table>
+          <thead>
+            <tr>
+              <th className="confusion-corner">Expected ↓ Typed →</th>
+              {typed.map(letter => (
+                <th key={letter}>{formatLetter(letter)}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {expected.map(expectedLetter => (
+              <tr key={expectedLetter}>
+                <th>{formatLetter(expectedLetter)}</th>
+                {typed.map(typedLetter => {
+                  const count = counts[expectedLetter]?.[typedLetter] || 0;
+                  if (count === 0) {
+                    return <td key={typedLetter}></td>;
+                  }
+                  return (
+                    <td
+                      key={typedLetter}
+                      className="confusion-cell"
+                      style={{ '--intensity': `${Math.round((count / maxCount) * 100)}%` } as React.CSSProperties}
+                      title={`"${formatLetter(expectedLetter)}" typed as "${formatLetter(typedLetter)}" ${count} times`}
+                    >
+                      {count}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ConfusionMatrix;
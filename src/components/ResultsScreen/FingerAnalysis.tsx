@@ -0,0 +1,124 @@
+import React from 'react';
+import { BigramClassStat, FingerStat, HandStat } from '../../types/types';
+import { BIGRAM_CLASS_LABELS, formatFinger } from '../../utils/fingers';
+
+interface FingerAnalysisProps {
+  fingerStats: FingerStat[];
+  handStats: HandStat[];
+  bigramClassStats: BigramClassStat[];
+}
+
+const formatErrorRate = (rate: number) => `${Math.round(rate * 100)}%`;
+
+const FingerAnalysis: React.FC<FingerAnalysisProps> = ({ fingerStats, handStats, bigramClassStats }) => {
+  if (fingerStats.length === 0) {
+    return <p className="confusion-empty">No letters typed on this layout yet</p>;
+  }
+
+  const timedFingers = fingerStats.filter(stat => stat.occurrences > 0);
+  const minTime = Math.min(...timedFingers.map(stat => stat.averageTime));
+  const maxTime = Math.max(...timedFingers.map(stat => stat.averageTime));
+  const mostErrors = fingerStats.reduce((worst, stat) => stat.errorRate > worst.errorRate ? stat : worst);
+
+  // Same-finger and other bigrams are compared with alternating hands, usually the fastest way to type two keys
+  const alternating = bigramClassStats.find(stat => stat.bigramClass === 'alternating');
+
+  return (
+    <div className="finger-analysis">
+      <p className="confusion-note">
+        {timedFingers.length > 0 && <>Slowest finger: <strong>{formatFinger(timedFingers[0].finger)}</strong>. </>}
+        {mostErrors.errorRate > 0 && <>Most error-prone finger: <strong>{formatFinger(mostErrors.finger)}</strong>. </>}
+        New games favor words for the slowest finger once it has enough practice recorded.
+      </p>
+
+      <table className="mode-breakdown finger-table">
+        <thead>
+          <tr>
+            <th>Finger</th>
+            <th>Average</th>
+            <th>Typed</th>
+            <th>Mistakes</th>
+            <th>Error Rate</th>
+          </tr>
+        </thead>
+        <tbody>
+          {fingerStats.map(stat => (
+            <tr key={stat.finger}>
+              <td>{formatFinger(stat.finger)}</td>
+              <td
+                className={stat.occurrences > 0 ? 'finger-time' : ''}
+                style={stat.occurrences > 0
+                  ? { '--heat': `${maxTime > minTime ? Math.round((stat.averageTime - minTime) / (maxTime - minTime) * 100) : 0}%` } as React.CSSProperties
+                  : undefined}
+              >
+                {stat.occurrences > 0 ? `${stat.averageTime}ms` : '—'}
+              </td>
+              <td>{stat.occurrences}</td>
+              <td>{stat.mistakes}</td>
+              <td>{formatErrorRate(stat.errorRate)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <h4>Hands</h4>
+      <table className="mode-breakdown finger-table">
+        <thead>
+          <tr>
+            <th>Hand</th>
+            <th>Average</th>
+            <th>Typed</th>
+            <th>Error Rate</th>
+          </tr>
+        </thead>
+        <tbody>
+          {handStats.map(stat => (
+            <tr key={stat.hand}>
+              <td>{stat.hand === 'left' ? 'Left' : 'Right'}</td>
+              <td>{stat.occurrences > 0 ? `${stat.averageTime}ms` : '—'}</td>
+              <td>{stat.occurrences}</td>
+              <td>{formatErrorRate(stat.errorRate)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <h4>Bigrams by Finger Movement</h4>
+      {bigramClassStats.length === 0 ? (
+        <p className="confusion-empty">No bigrams typed yet</p>
+      ) : (
+        <table className="mode-breakdown finger-table">
+          <thead>
+            <tr>
+              <th>Movement</th>
+              <th>Average</th>
+              <th>Typed</th>
+              <th>vs Alternating</th>
+            </tr>
+          </thead>
+          <tbody>
+            {bigramClassStats.map(stat => {
+              const difference = alternating ? stat.averageTime - alternating.averageTime : null;
+              return (
+                <tr key={stat.bigramClass}>
+                  <td>{BIGRAM_CLASS_LABELS[stat.bigramClass]}</td>
+                  <td>{stat.averageTime}ms</td>
+                  <td>{stat.occurrences}</td>
+                  <td className={difference !== null && difference > 0 ? 'behind' : ''}>
+                    {difference === null || stat.bigramClass === 'alternating' ? '—' : `${difference > 0 ? '+' : ''}${difference}ms`}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+      <p className="confusion-note">
+        Same finger: both keys typed by one finger. Row jump: one hand reaching two or more rows, such as from the top row to the bottom row.
+        Same hand: other pairs typed by one hand. Alternating: one key typed by each hand.
+      </p>
+    </div>
+  );
+};
+
+export default FingerAnalysis;
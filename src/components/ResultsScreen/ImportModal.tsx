@@ -0,0 +1,35 @@
+import { ExportedData, ImportMode } from '../../types/types';
+
+interface ImportModalProps {
+    data: ExportedData | null;
+    onImport: (data: ExportedData, mode: ImportMode) => void;
+    onClose: () => void;
+}
+
+export const ImportModal: React.FC<ImportModalProps> = ({ data, onImport, onClose }) => {
+    if (!data) return null;
+
+    const exportedAt = data.exportedAt ? new Date(data.exportedAt).toLocaleString() : 'an unknown date';
+
+    return (
+        <div className="modal-overlay">
+            <div className="modal-content">
+                <button className="modal-close" onClick={onClose}>&times;</button>
+                <h2>Import Typing Data</h2>
+                <div className="help-section">
+                <p>
+                    This file was exported on {exportedAt} and contains {data.timingHistory.historicalPerformance.length} games.
+                </p>
+                <ul>
+                    <li><strong>Replace:</strong> Discard your current data and preferences and use the imported ones</li>
+                    <li><strong>Merge:</strong> Combine the imported games and timings with your current data, keeping your preferences. Games you already have are not counted again.</li>
+                </ul>
+                </div>
+                <div className="button-row">
+                    <button className="delete-button" onClick={() => onImport(data, 'replace')}>Replace</button>
+                    <button className="reset-button" onClick={() => onImport(data, 'merge')}>Merge</button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { KeyboardLayout, KeyStat } from '../../types/types';
+
+interface KeyboardHeatmapProps {
+  keyStats: KeyStat[];
+  // Statistics of the physical keys struck, labeled with the layout's characters
+  physicalKeyStats: KeyStat[];
+  layout: KeyboardLayout;
+}
+
+type HeatmapMetric = 'time' | 'errors';
+
+type HeatmapSource = 'typed' | 'physical';
+
+const formatErrorRate = (rate: number) => `${Math.round(rate * 100)}%`;
+
+const KeyboardHeatmap: React.FC<KeyboardHeatmapProps> = ({ keyStats: typedKeyStats, physicalKeyStats, layout }) => {
+  // Whether keys are colored by average time or by error rate
+  const [metric, setMetric] = useState<HeatmapMetric>('time');
+
+  // Whether keys are placed by the character typed or by the physical key struck
+  const [source, setSource] = useState<HeatmapSource>('typed');
+
+  const keyStats = source === 'physical' ? physicalKeyStats : typedKeyStats;
+
+  // Key under the pointer, whose details are shown below the keyboard
+  const [hoveredKey, setHoveredKey] = useState<string | null>(null);
+
+  const timedStats = keyStats.filter(stat => stat.occurrences > 0);
+  const minTime = Math.min(...timedStats.map(stat => stat.averageTime));
+  const maxTime = Math.max(...timedStats.map(stat => stat.averageTime));
+  const maxErrorRate = Math.max(0, ...keyStats.map(stat => stat.errorRate));
+
+  // How bad a key is on the selected metric, from 0 (best) to 1 (worst), or null without data
+  const getHeat = (stat: KeyStat | undefined): number | null => {
+    if (!stat) return null;
+    if (metric === 'errors') {
+      return maxErrorRate > 0 ? stat.errorRate / maxErrorRate : 0;
+    }
+    if (stat.occurrences === 0) return null;
+    return maxTime > minTime ? (stat.averageTime - minTime) / (maxTime - minTime) : 0;
+  };
+
+  const hoveredStat = keyStats.find(stat => stat.key === hoveredKey);
+
+  return (
+    <div className="keyboard-heatmap">
+      <div className="tab-row">
+        <button
+          className={`tab-button ${metric === 'time' ? 'active' : ''}`}
+          onClick={() => setMetric('time')}
+        >
+          Speed
+        </button>
+        <button
+          className={`tab-button ${metric === 'errors' ? 'active' : ''}`}
+          onClick={() => setMetric('errors')}
+        >
+          Errors
+        </button>
+        <button
+          className={`tab-button ${source === 'typed' ? 'active' : ''}`}
+          onClick={() => setSource('typed')}
+        >
+          Typed Letter
+        </button>
+        <button
+          className={`tab-button ${source === 'physical' ? 'active' : ''}`}
+          onClick={() => setSource('physical')}
+        >
+          Physical Key
+        </button>
+      </div>
+
+      <div className="keyboard" onMouseLeave={() => setHoveredKey(null)}>
+        {layout.rows.map((row, rowIndex) => (
+          <div key={rowIndex} className={`keyboard-row row-${rowIndex}`}>
+            {row.split('').map(key => {
+              const stat = keyStats.find(keyStat => keyStat.key === key);
+              const heat = getHeat(stat);
+              return (
+                <div
+                  key={key}
+                  className={`keyboard-key ${heat === null ? 'no-data' : ''} ${key === hoveredKey ? 'hovered' : ''}`}
+                  style={heat !== null ? { '--heat': `${Math.round(heat * 100)}%` } as React.CSSProperties : undefined}
+                  onMouseEnter={() => setHoveredKey(key)}
+                >
+                  {key}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      <p className="key-details">
+        {hoveredKey === null
+          ? `Hover over a key for details. Green keys are ${metric === 'time' ? 'fastest' : 'most accurate'}, red keys ${metric === 'time' ? 'slowest' : 'most often mistyped'}.`
+          : !hoveredStat
+            ? `"${hoveredKey}" has not been ${source === 'physical' ? 'struck' : 'typed'} yet`
+            : `"${hoveredKey}": ${hoveredStat.occurrences > 0 ? `${hoveredStat.averageTime}ms average, ` : ''}typed correctly ${hoveredStat.occurrences} times, ${source === 'physical' ? 'struck for a wrong character' : 'mistyped'} ${hoveredStat.mistakes} times (${formatErrorRate(hoveredStat.errorRate)} errors)`}
+      </p>
+      {source === 'physical' && (
+        <p className="key-details">
+          Keys are placed by where they sit on the keyboard, whatever your operating system typed with them,
+          and measured from the games that keep their keystroke log.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default KeyboardHeatmap;
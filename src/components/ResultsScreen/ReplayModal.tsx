@@ -0,0 +1,182 @@
+import { useEffect, useMemo, useState } from 'react';
+import { GameSession, ReplayMark } from '../../types/types';
+import { getReplayFrame, getReplayMarks } from '../../utils/keystrokeLog';
+import { formatGameMode } from '../../utils/utils';
+import { formatSessionDate } from '../../utils/sessions';
+import WordDisplay from '../GameScreen/WordDisplay';
+
+// Playback speeds offered, as multiples of real time
+const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+// Class added to a character of the word display once a mark on it has been played
+const MARK_CLASSES: { [type in ReplayMark['type']]?: string } = {
+    hesitation: 'replay-hesitation',
+    correction: 'replay-corrected'
+};
+
+const MARK_LABELS: { [type in ReplayMark['type']]: string } = {
+    hesitation: 'Hesitations',
+    mistype: 'Mistypes',
+    correction: 'Corrections'
+};
+
+const formatReplayTime = (time: number) => `${(time / 1000).toFixed(1)}s`;
+
+const describeKey = (key: string | undefined) => key === undefined || key === ' ' ? 'space' : `"${key}"`;
+
+interface ReplayModalProps {
+    session: GameSession | null;
+    onClose: () => void;
+}
+
+export const ReplayModal: React.FC<ReplayModalProps> = ({ session, onClose }) => {
+    // Playback position in milliseconds since the game started
+    const [position, setPosition] = useState(0);
+
+    // Whether the replay is currently playing
+    const [isPlaying, setIsPlaying] = useState(false);
+
+    // Playback speed as a multiple of real time
+    const [speed, setSpeed] = useState(1);
+
+    const log = useMemo(() => session?.keystrokeLog || [], [session]);
+    const marks = useMemo(() => getReplayMarks(log), [log]);
+    const duration = Math.max(session?.duration || 0, log.length > 0 ? log[log.length - 1].time : 0);
+
+    // Start playing from the beginning whenever a session is opened
+    useEffect(() => {
+        setPosition(0);
+        setIsPlaying(!!session);
+    }, [session]);
+
+    // Advance the playback position every animation frame while playing
+    useEffect(() => {
+        if (!isPlaying) return;
+
+        let frame: number;
+        let lastFrameTime = performance.now();
+        const step = (now: number) => {
+            setPosition(current => Math.min(duration, current + (now - lastFrameTime) * speed));
+            lastFrameTime = now;
+            frame = requestAnimationFrame(step);
+        };
+        frame = requestAnimationFrame(step);
+        return () => cancelAnimationFrame(frame);
+    }, [isPlaying, speed, duration]);
+
+    // Stop at the end of the game
+    useEffect(() => {
+        if (position >= duration) {
+            setIsPlaying(false);
+        }
+    }, [position, duration]);
+
+    if (!session) return null;
+
+    const frame = getReplayFrame(log, position);
+    const playedMarks = marks.filter(mark => mark.time <= position);
+    const charMarks: { [position: string]: string } = {};
+    playedMarks.forEach(mark => {
+        const className = MARK_CLASSES[mark.type];
+        const key = `${mark.wordIndex}:${mark.charIndex}`;
+        if (className && !charMarks[key]?.includes(className)) {
+            charMarks[key] = charMarks[key] ? `${charMarks[key]} ${className}` : className;
+        }
+    });
+
+    const describeMark = (mark: ReplayMark) => {
+        const word = session.words[mark.wordIndex] || '';
+        const at = formatReplayTime(mark.time);
+        if (mark.type === 'hesitation') {
+            return `${at}: paused ${formatReplayTime(mark.pause)} before ${describeKey(mark.key)} in "${word}"`;
+        }
+        if (mark.type === 'mistype') {
+            return `${at}: typed ${describeKey(mark.key)} instead of ${describeKey(word[mark.charIndex])} in "${word}"`;
+        }
+        return `${at}: deleted a character of "${word}"`;
+    };
+
+    const togglePlaying = () => {
+        // Playing again from the end starts over
+        if (!isPlaying && position >= duration) {
+            setPosition(0);
+        }
+        setIsPlaying(!isPlaying);
+    };
+
+    return (
+        <div className="modal-overlay">
+            <div className="modal-content replay-modal">
+                <button className="modal-close" onClick={onClose}>&times;</button>
+                <h2>Replay</h2>
+                <p className="replay-summary">
+                    {session.startedAt !== null && `${formatSessionDate(session.startedAt, true)} · `}
+                    {formatGameMode(session.mode)} · {session.wpm} WPM · {session.accuracy}%
+                </p>
+
+                <WordDisplay
+                    words={session.words}
+                    wordIndex={frame.wordIndex}
+                    currentInput={frame.currentInput}
+                    completedInputs={frame.completedInputs}
+                    targeted={null}
+                    hideTargets={true}
+                    scrollLines={session.mode.type === 'time'}
+                    charMarks={charMarks}
+                />
+
+                <div className="replay-controls">
+                    <button className="data-button replay-play" onClick={togglePlaying}>
+                        {isPlaying ? 'Pause' : 'Play'}
+                    </button>
+                    <span className="replay-time">
+                        {formatReplayTime(position)} / {formatReplayTime(duration)}
+                    </span>
+                    <div className="replay-speeds">
+                        {REPLAY_SPEEDS.map(replaySpeed => (
+                            <button
+                                key={replaySpeed}
+                                className={`tab-button ${speed === replaySpeed ? 'active' : ''}`}
+                                onClick={() => setSpeed(replaySpeed)}
+                            >
+                                {replaySpeed}x
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="replay-timeline">
+                    <input
+                        type="range"
+                        min={0}
+                        max={duration}
+                        step={10}
+                        value={Math.min(position, duration)}
+                        onChange={(e) => setPosition(Number(e.target.value))}
+                        aria-label="Replay position"
+                    />
+                    <div className="replay-marks">
+                        {marks.map((mark, idx) => (
+                            <span
+                                key={idx}
+                                className={`replay-mark ${mark.type}`}
+                                style={{ left: `${duration > 0 ? (mark.time / duration) * 100 : 0}%` }}
+                                title={describeMark(mark)}
+                                onClick={() => setPosition(mark.time)}
+                            />
+                        ))}
+                    </div>
+                </div>
+
+                <div className="replay-legend">
+                    {(Object.keys(MARK_LABELS) as ReplayMark['type'][]).map(type => (
+                        <span key={type} className="replay-legend-item">
+                            <span className={`replay-swatch ${type}`} />
+                            {MARK_LABELS[type]}: {playedMarks.filter(mark => mark.type === type).length}
+                        </span>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,51 +1,206 @@
-import React from 'react';
+import React, { useState, useRef } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { TimingHistory, PerformancePoint } from '../../types/types';
-import { calculateLetterStats, calculateBigramStats, calculateOverallLetterStats, calculateOverallBigramStats } from '../../utils/utils';
+import { TimingHistory, PerformancePoint, GameMode, DailyPerformance, GameSession, ExportedData, ImportMode, KeyboardLayout, LetterMistake, ResultsTab, TypingTimings } from '../../types/types';
+import { calculateLetterStats, calculateBigramStats, calculateOverallLetterStats, calculateOverallBigramStats, calculateNgramStats, calculateOverallTrigramStats, calculateRecordedNgramStats, calculateShiftStats, NGRAM_LENGTHS, getModePerformance, groupPerformanceByMode, formatGameMode, isSameMode } from '../../utils/utils';
+import { aggregateSessionsByDay, getDatedSessions, formatSessionDate } from '../../utils/sessions';
+import { compareWithGhost } from '../../utils/ghost';
+import { analyzeNgrams } from '../../utils/keystrokeLog';
+import { getMistakesByLetter } from '../../utils/confusions';
+import { calculateKeyStats, calculatePhysicalKeyStats } from '../../utils/keyboardLayouts';
+import { calculateFingerStats, calculateHandStats, calculateBigramClassStats } from '../../utils/fingers';
+import { parseExportData, downloadFile, getDatedFilename, createLetterStatsCsv, createBigramStatsCsv, createNgramStatsCsv, createLetterConfusionsCsv, createFingerStatsCsv, createWordStatsCsv, createSessionsCsv } from '../../utils/dataExport';
+import { ImportModal } from './ImportModal';
+import { ReplayModal } from './ReplayModal';
+import ConfusionMatrix from './ConfusionMatrix';
+import KeyboardHeatmap from './KeyboardHeatmap';
+import FingerAnalysis from './FingerAnalysis';
 import './ResultsScreen.css';
 
 interface ResultsScreenProps {
   performanceData: PerformancePoint[];
   timingHistory: TimingHistory;
   showingOverall: boolean;
-  selectedTab: 'letters' | 'bigrams' | 'words';
+  selectedTab: ResultsTab;
+  gameMode: GameMode;
   words: string[];
   wordIndex: number;
   completedInputs: string[];
   currentInput: string;
-  typeTimings: { letters: { [key: string]: number[] }, bigrams: { [key: string]: number[] }, words: { [key: string]: number[] } };
-  onTabChange: (tab: 'letters' | 'bigrams' | 'words') => void;
+  typeTimings: TypingTimings;
+  keyboardLayout: KeyboardLayout;
+  letterConfusions: LetterMistake[];
+  ghostSession: GameSession | null;
+  onTabChange: (tab: ResultsTab) => void;
   onToggleOverall: () => void;
   onReset: () => void;
+  onRaceSession: (session: GameSession) => void;
+  onShareChallenge: () => void;
   onDeleteData: () => void;
+  onExportData: () => void;
+  onImportData: (data: ExportedData, mode: ImportMode) => void;
   calculateWordStats: () => { word: string; averageTime: number; occurrences: number; mistypes: number; }[];
   calculateOverallWordStats: () => { word: string; averageTime: number; occurrences: number; mistypes: number; }[];
 }
 
+// Formats a time difference in seconds
+const formatDelta = (delta: number) => `${(delta / 1000).toFixed(2)}s`;
+
+// Formats a time difference against the ghost, with + for slower and − for faster
+const formatSignedDelta = (delta: number) => `${delta > 0 ? '+' : delta < 0 ? '−' : ''}${formatDelta(Math.abs(delta))}`;
+
 const ResultsScreen: React.FC<ResultsScreenProps> = ({
   performanceData,
   timingHistory,
   showingOverall,
   selectedTab,
+  gameMode,
   words,
   wordIndex,
   completedInputs,
   currentInput,
   typeTimings,
+  keyboardLayout,
+  letterConfusions,
+  ghostSession,
   onTabChange,
   onToggleOverall,
   onReset,
+  onRaceSession,
+  onShareChallenge,
   onDeleteData,
+  onExportData,
+  onImportData,
   calculateWordStats,
   calculateOverallWordStats
 }) => {
-  // Calculate average WPM and accuracy across all typing sessions
-  const calculateOverallStats = () => {
-    if (timingHistory.historicalPerformance.length === 0) return null;
+  // Hidden file input used to pick an export file to import
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Validated export file waiting for the user to choose replace or merge
+  const [pendingImport, setPendingImport] = useState<ExportedData | null>(null);
+
+  // Session being replayed
+  const [replaySession, setReplaySession] = useState<GameSession | null>(null);
+
+  // The game just played is the last one recorded
+  const latestSession = timingHistory.historicalPerformance[timingHistory.historicalPerformance.length - 1];
+
+  // Every attempt at the challenge just played, fastest first, so attempts on the same words can be compared
+  const challengeSeed = latestSession?.seed ?? null;
+  const challengeAttempts = challengeSeed !== null
+    ? timingHistory.historicalPerformance
+      .filter(game => game.seed === challengeSeed && isSameMode(game.mode, latestSession.mode))
+      .sort((a, b) => b.wpm - a.wpm)
+    : [];
+
+  // Time of each word against the ghost, when the game just played raced one
+  const ghostDeltas = ghostSession && latestSession && latestSession.id !== ghostSession.id
+    ? compareWithGhost(latestSession, ghostSession)
+    : [];
+  const ghostTotalDelta = ghostDeltas.length > 0 ? ghostDeltas[ghostDeltas.length - 1].totalDelta : 0;
+
+  // Letter timings and mistakes of the current game or of all games, colored onto the keyboard heatmap
+  const shownLetterStats = showingOverall
+    ? calculateOverallLetterStats(words, wordIndex, completedInputs, currentInput, typeTimings.letters, timingHistory)
+    : calculateLetterStats(words, wordIndex, completedInputs, currentInput, typeTimings.letters);
+  const keyStats = calculateKeyStats(shownLetterStats, getMistakesByLetter(showingOverall ? timingHistory.letterConfusions : letterConfusions));
+
+  // Physical keys and Shift use are measured from the keystroke logs of the current game or of every game that kept one
+  const loggedSessions = showingOverall ? timingHistory.historicalPerformance : latestSession ? [latestSession] : [];
+  const physicalKeyStats = calculatePhysicalKeyStats(loggedSessions, keyboardLayout);
+  const shiftStats = calculateShiftStats(loggedSessions);
+
+  // Bigram timings of the current game or of all games
+  const shownBigramStats = showingOverall
+    ? calculateOverallBigramStats(words, wordIndex, completedInputs, currentInput, typeTimings.letters, timingHistory)
+    : calculateBigramStats(words, wordIndex, completedInputs, currentInput, typeTimings.bigrams);
+
+  // Letter and bigram timings grouped by the finger and hand that type them on the layout in use
+  const fingerStats = calculateFingerStats(keyStats, keyboardLayout);
+  const handStats = calculateHandStats(keyStats, keyboardLayout);
+  const bigramClassStats = calculateBigramClassStats(shownBigramStats, keyboardLayout);
+
+  // Number of letters in the n-grams shown in the trigram analysis
+  const [ngramLength, setNgramLength] = useState(3);
+
+  // Trigrams come from the timing history; longer n-grams are measured from the recorded keystroke logs
+  const currentNgramStats = calculateNgramStats(ngramLength === 3
+    ? typeTimings.trigrams
+    : analyzeNgrams(latestSession?.keystrokeLog || [], words, ngramLength));
+  const ngramStats = !showingOverall
+    ? currentNgramStats
+    : ngramLength === 3
+      ? calculateOverallTrigramStats(typeTimings.trigrams, timingHistory)
+      : calculateRecordedNgramStats(timingHistory.historicalPerformance, ngramLength);
+
+  // Read and validate the chosen export file before offering to import it
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setPendingImport(parseExportData(await file.text()));
+    } catch (error) {
+      window.alert(`Could not import data: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  // Download the analysis table currently shown as a CSV file
+  const handleExportStatsCsv = () => {
+    const scope = showingOverall ? 'overall' : 'current';
+    let content: string;
+    if (selectedTab === 'letters') {
+      content = createLetterStatsCsv(shownLetterStats);
+    } else if (selectedTab === 'bigrams') {
+      content = createBigramStatsCsv(shownBigramStats);
+    } else if (selectedTab === 'trigrams') {
+      content = createNgramStatsCsv(ngramStats);
+    } else if (selectedTab === 'confusions') {
+      content = createLetterConfusionsCsv(showingOverall ? timingHistory.letterConfusions : letterConfusions);
+    } else if (selectedTab === 'fingers') {
+      content = createFingerStatsCsv(fingerStats, handStats, bigramClassStats);
+    } else {
+      content = createWordStatsCsv(showingOverall ? calculateOverallWordStats() : calculateWordStats());
+    }
+    const name = selectedTab === 'trigrams' && ngramLength !== 3 ? `${ngramLength}-grams` : selectedTab;
+    downloadFile(getDatedFilename(`${scope}-${name}`, 'csv'), content, 'text/csv');
+  };
+
+  // Download the full session history as a CSV file
+  const handleExportSessionsCsv = () => {
+    downloadFile(getDatedFilename('sessions', 'csv'), createSessionsCsv(timingHistory.historicalPerformance), 'text/csv');
+  };
+
+  // Test length shown in the overall view, defaulting to the one just played
+  const [overallMode, setOverallMode] = useState<GameMode>(gameMode);
+
+  // Games played at the selected length, so results of different lengths are never mixed
+  const modePerformance = getModePerformance(timingHistory, overallMode);
+  const modeGroups = groupPerformanceByMode(timingHistory);
+  const showOverallChart = showingOverall && modePerformance.length > 1;
+
+  // X axis of the overall chart: one point per game, games on a real time axis, or daily averages
+  const [overallAxis, setOverallAxis] = useState<'games' | 'time' | 'days'>('games');
+  const datedPerformance = getDatedSessions(modePerformance);
+  const undatedCount = modePerformance.length - datedPerformance.length;
+
+  const chartData: (PerformancePoint | GameSession | DailyPerformance)[] = !showOverallChart
+    ? performanceData
+    : overallAxis === 'time'
+      ? datedPerformance
+      : overallAxis === 'days'
+        ? aggregateSessionsByDay(datedPerformance)
+        : modePerformance;
+  const wpmCeiling = Math.ceil(Math.max(0, ...chartData.map(d => d.wpm)) / 10) * 10;
+
+  // Calculate average WPM and accuracy across a set of typing sessions
+  const calculateOverallStats = (games: typeof modePerformance) => {
+    if (games.length === 0) return null;
     
-    const totalWPM = timingHistory.historicalPerformance.reduce((sum, game) => sum + game.wpm, 0);
-    const totalAccuracy = timingHistory.historicalPerformance.reduce((sum, game) => sum + game.accuracy, 0);
-    const gamesCount = timingHistory.historicalPerformance.length;
+    const totalWPM = games.reduce((sum, game) => sum + game.wpm, 0);
+    const totalAccuracy = games.reduce((sum, game) => sum + game.accuracy, 0);
+    const gamesCount = games.length;
     
     return {
       wpm: Math.round(totalWPM / gamesCount * 100) / 100,
@@ -53,11 +208,14 @@ const ResultsScreen: React.FC<ResultsScreenProps> = ({
     };
   };
 
-  const overallStats = calculateOverallStats();
+  const overallStats = calculateOverallStats(modePerformance);
+
+  // Games at the selected length that kept their keystroke log and can be replayed, newest first
+  const replayableSessions = modePerformance.filter(game => game.keystrokeLog).reverse();
 
   return (
     <div className="results-container">
-      <h2>Results</h2>
+      <h2>Results ({formatGameMode(gameMode)}, {keyboardLayout.name}{challengeSeed !== null && `, challenge ${challengeSeed}`})</h2>
       
       {(timingHistory.historicalPerformance.length > 1) && (
         <div className="stats-tabs">
@@ -71,7 +229,52 @@ const ResultsScreen: React.FC<ResultsScreenProps> = ({
               <span className="toggle-slider"></span>
               <span className="toggle-label">{showingOverall ? 'Overall' : 'Current'}</span>
             </label>
+            {showingOverall && (
+              <select
+                className="mode-filter"
+                value={modeGroups.findIndex(group => isSameMode(group.mode, overallMode))}
+                onChange={(e) => setOverallMode(modeGroups[Number(e.target.value)].mode)}
+              >
+                {!modeGroups.some(group => isSameMode(group.mode, overallMode)) && (
+                  <option value={-1}>{formatGameMode(overallMode)}</option>
+                )}
+                {modeGroups.map((group, idx) => (
+                  <option key={idx} value={idx}>
+                    {formatGameMode(group.mode)} ({group.games.length} games)
+                  </option>
+                ))}
+              </select>
+            )}
           </div>
+          {showingOverall && modeGroups.length > 1 && (
+            <table className="mode-breakdown">
+              <thead>
+                <tr>
+                  <th>Length</th>
+                  <th>Games</th>
+                  <th>Avg WPM</th>
+                  <th>Avg Accuracy</th>
+                </tr>
+              </thead>
+              <tbody>
+                {modeGroups.map((group, idx) => {
+                  const groupStats = calculateOverallStats(group.games);
+                  return (
+                    <tr
+                      key={idx}
+                      className={isSameMode(group.mode, overallMode) ? 'active' : ''}
+                      onClick={() => setOverallMode(group.mode)}
+                    >
+                      <td>{formatGameMode(group.mode)}</td>
+                      <td>{group.games.length}</td>
+                      <td>{groupStats?.wpm}</td>
+                      <td>{groupStats?.accuracy}%</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
         </div>
       )}
 
@@ -94,36 +297,126 @@ const ResultsScreen: React.FC<ResultsScreenProps> = ({
         </div>
       </div>
       
-      <h3>{timingHistory.historicalPerformance.length > 1 && showingOverall ? 'Overall' : 'Current'} Performance</h3>
+      {!showingOverall && challengeAttempts.length > 1 && (
+        <div className="challenge-attempts">
+          <h3>Challenge Attempts</h3>
+          <table className="mode-breakdown">
+            <thead>
+              <tr>
+                <th>Rank</th>
+                <th>Played</th>
+                <th>WPM</th>
+                <th>Accuracy</th>
+              </tr>
+            </thead>
+            <tbody>
+              {challengeAttempts.map((game, idx) => (
+                <tr key={game.id} className={game.id === latestSession.id ? 'active' : ''}>
+                  <td>{idx + 1}</td>
+                  <td>{game.startedAt !== null ? formatSessionDate(game.startedAt, true) : 'Unknown'}</td>
+                  <td>{game.wpm}</td>
+                  <td>{game.accuracy}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {!showingOverall && ghostSession && ghostDeltas.length > 0 && (
+        <div className="ghost-race">
+          <h3>Ghost Race</h3>
+          <p className={`ghost-race-summary ${ghostTotalDelta < 0 ? 'ahead' : ghostTotalDelta > 0 ? 'behind' : ''}`}>
+            {ghostTotalDelta === 0
+              ? 'You finished level with the ghost'
+              : `You finished ${formatDelta(Math.abs(ghostTotalDelta))} ${ghostTotalDelta < 0 ? 'ahead of' : 'behind'} the ghost`}
+            {' '}({ghostSession.wpm} WPM{ghostSession.startedAt !== null && `, ${formatSessionDate(ghostSession.startedAt, true)}`})
+          </p>
+          <div className="ghost-race-table">
+            <table className="mode-breakdown">
+              <thead>
+                <tr>
+                  <th>Word</th>
+                  <th>You</th>
+                  <th>Ghost</th>
+                  <th>Difference</th>
+                  <th>Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ghostDeltas.map(({ wordIndex, word, time, ghostTime, delta, totalDelta }) => (
+                  <tr key={wordIndex}>
+                    <td>{word}</td>
+                    <td>{time}ms</td>
+                    <td>{ghostTime}ms</td>
+                    <td className={delta < 0 ? 'ahead' : delta > 0 ? 'behind' : ''}>{formatSignedDelta(delta)}</td>
+                    <td className={totalDelta < 0 ? 'ahead' : totalDelta > 0 ? 'behind' : ''}>{formatSignedDelta(totalDelta)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <h3>{showOverallChart ? `Overall ${formatGameMode(overallMode)}` : 'Current'} Performance</h3>
+      {showOverallChart && (
+        <div className="tab-row">
+          <select
+            className="mode-filter"
+            value={overallAxis}
+            onChange={(e) => setOverallAxis(e.target.value as typeof overallAxis)}
+          >
+            <option value="games">By game</option>
+            <option value="time">By date</option>
+            <option value="days">Per day</option>
+          </select>
+          {overallAxis !== 'games' && undatedCount > 0 && (
+            <span className="toggle-label">{undatedCount} older games have no date and are not shown</span>
+          )}
+        </div>
+      )}
       <div className="performance-graph">
         <ResponsiveContainer width="100%" height={300}>
           <LineChart 
-            data={timingHistory.historicalPerformance.length > 1 && showingOverall ? timingHistory.historicalPerformance : performanceData} 
+            data={chartData} 
             margin={{ top: 20, right: 20, left: 20, bottom: 20 }}
           >
             <CartesianGrid vertical={true} horizontal={false} />
-            <XAxis 
-              dataKey={showingOverall ? undefined : "wordIndex"}
-              label={{ 
-                value: showingOverall ? 'Games Completed' : 'Words Typed', 
-                position: 'bottom' 
-              }}
-              interval={showingOverall ? 0 : 0}
-              tickFormatter={(value, index) => `${index + 1}`}
-            />
+            {showOverallChart && overallAxis === 'time' ? (
+              <XAxis
+                dataKey="startedAt"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                label={{ value: 'Date', position: 'bottom' }}
+                tickFormatter={(value) => formatSessionDate(Number(value))}
+              />
+            ) : showOverallChart && overallAxis === 'days' ? (
+              <XAxis
+                dataKey="date"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                label={{ value: 'Day', position: 'bottom' }}
+                tickFormatter={(value) => formatSessionDate(Number(value))}
+              />
+            ) : (
+              <XAxis 
+                dataKey={showOverallChart ? undefined : "wordIndex"}
+                label={{ 
+                  value: showOverallChart ? 'Games Completed' : 'Words Typed', 
+                  position: 'bottom' 
+                }}
+                interval={0}
+                tickFormatter={(value, index) => `${index + 1}`}
+              />
+            )}
             <YAxis 
               yAxisId="left"
-              domain={[0, Math.ceil(Math.max(
-                ...(showingOverall ? 
-                  timingHistory.historicalPerformance.map(d => d.wpm) : 
-                  performanceData.map(d => d.wpm)
-                )) / 10) * 10]} 
+              domain={[0, wpmCeiling]} 
               ticks={Array.from(
-                { length: Math.floor(Math.ceil(Math.max(
-                  ...(showingOverall ? 
-                    timingHistory.historicalPerformance.map(d => d.wpm) : 
-                    performanceData.map(d => d.wpm)
-                  )) / 10) * 10 / 10) + 1 }, 
+                { length: wpmCeiling / 10 + 1 }, 
                 (_, i) => i * 10
               )}
               label={{ value: 'WPM', angle: -90, position: 'left' }}
@@ -139,33 +432,67 @@ const ResultsScreen: React.FC<ResultsScreenProps> = ({
                 `${value}${name === 'Accuracy' ? '%' : ' WPM'}`,
                 name
               ]}
-              labelFormatter={(label: any) => 
-                showingOverall ? `Game ${Number(label) + 1}` : `Word ${Number(label) + 1}`
-              }
+              labelFormatter={(label: any) => {
+                if (!showOverallChart) return `Word ${Number(label) + 1}`;
+                if (overallAxis === 'time') return formatSessionDate(Number(label), true);
+                if (overallAxis === 'days') return formatSessionDate(Number(label));
+                return `Game ${Number(label) + 1}`;
+              }}
             />
             <Line
               yAxisId="left"
               type="monotone"
-              dataKey={showingOverall ? "wpm" : "wpm"}
-              stroke="#2196f3"
+              dataKey={showOverallChart ? "wpm" : "wpm"}
+              stroke="var(--chart-wpm)"
               strokeWidth={2}
               name="WPM"
-              dot={showingOverall}
+              dot={showOverallChart}
               isAnimationActive={false}
             />
             <Line
               yAxisId="right"
               type="monotone"
-              dataKey={showingOverall ? "accuracy" : "accuracy"}
-              stroke="#4caf50"
+              dataKey={showOverallChart ? "accuracy" : "accuracy"}
+              stroke="var(--chart-accuracy)"
               strokeWidth={2}
+              strokeDasharray="6 3"
               name="Accuracy"
-              dot={showingOverall}
+              dot={showOverallChart}
               isAnimationActive={false}
             />
           </LineChart>
         </ResponsiveContainer>
       </div>
+      {showingOverall && replayableSessions.length > 0 && (
+        <>
+          <h3>Replays</h3>
+          <table className="mode-breakdown recent-sessions">
+            <thead>
+              <tr>
+                <th>Played</th>
+                <th>Challenge</th>
+                <th>WPM</th>
+                <th>Accuracy</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {replayableSessions.map(game => (
+                <tr key={game.id}>
+                  <td>{game.startedAt !== null ? formatSessionDate(game.startedAt, true) : 'Unknown'}</td>
+                  <td>{game.seed ?? '—'}</td>
+                  <td>{game.wpm}</td>
+                  <td>{game.accuracy}%</td>
+                  <td className="session-actions">
+                    <button className="tab-button" onClick={() => setReplaySession(game)}>Replay</button>
+                    <button className="tab-button" onClick={() => onRaceSession(game)}>Race</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
       <div className="button-row">
         <div className="tab-row">
           <button 
@@ -180,19 +507,41 @@ const ResultsScreen: React.FC<ResultsScreenProps> = ({
           >
             Bigram Analysis
           </button>
+          <button 
+            className={`tab-button ${selectedTab === 'trigrams' ? 'active' : ''}`}
+            onClick={() => onTabChange('trigrams')}
+          >
+            Trigram Analysis
+          </button>
           <button 
             className={`tab-button ${selectedTab === 'words' ? 'active' : ''}`}
             onClick={() => onTabChange('words')}
           >
             Word Analysis
           </button>
+          <button 
+            className={`tab-button ${selectedTab === 'confusions' ? 'active' : ''}`}
+            onClick={() => onTabChange('confusions')}
+          >
+            Letter Confusions
+          </button>
+          <button 
+            className={`tab-button ${selectedTab === 'fingers' ? 'active' : ''}`}
+            onClick={() => onTabChange('fingers')}
+          >
+            Finger Analysis
+          </button>
+          <button className="tab-button" onClick={handleExportStatsCsv}>
+            Export CSV
+          </button>
         </div>
       </div>
       {selectedTab === 'letters' && (
         <div className="letter-stats">
           <h3>{showingOverall ? 'Overall' : 'Current'} Letter Analysis</h3>
+          <KeyboardHeatmap keyStats={keyStats} physicalKeyStats={physicalKeyStats} layout={keyboardLayout} />
           <div className="stats-grid">
-            {(showingOverall ? calculateOverallLetterStats(words, wordIndex, completedInputs, currentInput, typeTimings.letters, timingHistory) : calculateLetterStats(words, wordIndex, completedInputs, currentInput, typeTimings.letters)).map(({ letter, averageTime, occurrences }) => (
+            {shownLetterStats.map(({ letter, averageTime, occurrences }) => (
               <div key={letter} className="stat-item">
                 <span className={`letter ${calculateLetterStats(words, wordIndex, completedInputs, currentInput, typeTimings.letters).some((stat) => stat.letter === letter) ? '' : 'seen'}`}>
                   {letter === ' ' ? '␣' : letter}
@@ -204,14 +553,40 @@ const ResultsScreen: React.FC<ResultsScreenProps> = ({
               </div>
             ))}
           </div>
+          <div className="shift-stats">
+            <h4>Shift Timing</h4>
+            {shiftStats.shiftedCount === 0 ? (
+              <p className="confusion-empty">No characters typed with Shift yet</p>
+            ) : (
+              <>
+                <p className="confusion-note">
+                  Characters typed with Shift took {shiftStats.shiftedTime}ms on average ({shiftStats.shiftedCount} times),
+                  against {shiftStats.unshiftedTime}ms without it ({shiftStats.unshiftedCount} times).
+                </p>
+                <div className="stats-grid">
+                  {shiftStats.characters.map(({ letter, averageTime, occurrences, unshiftedTime }) => (
+                    <div key={letter} className="stat-item">
+                      <span className="letter">{letter}</span>
+                      <span className="time">{averageTime}ms</span>
+                      {unshiftedTime !== null && (
+                        <span className="occurrences">{letter.toLowerCase()} {unshiftedTime}ms</span>
+                      )}
+                      <span className="occurrences">
+                        {occurrences} {'times'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
         </div>
       )}
       {selectedTab === 'bigrams' && (
         <div className="letter-stats">
           <h3>{showingOverall ? 'Overall' : 'Current'} Bigram Analysis</h3>
           <div className="stats-grid">
-            {(showingOverall ? calculateOverallBigramStats(words, wordIndex, completedInputs, currentInput, typeTimings.letters, timingHistory) 
-                : calculateBigramStats(words, wordIndex, completedInputs, currentInput, typeTimings.bigrams)).map(({ bigram, averageTime, occurrences }) => (
+            {shownBigramStats.map(({ bigram, averageTime, occurrences }) => (
               <div key={bigram} className="stat-item">
                 <span className={`letter ${calculateBigramStats(words, wordIndex, completedInputs, currentInput, typeTimings.bigrams).some((stat) => stat.bigram === bigram) ? '' : 'seen'}`}>
                   {bigram}
@@ -225,6 +600,41 @@ const ResultsScreen: React.FC<ResultsScreenProps> = ({
           </div>
         </div>
       )}
+      {selectedTab === 'trigrams' && (
+        <div className="letter-stats">
+          <h3>{showingOverall ? 'Overall' : 'Current'} {ngramLength === 3 ? 'Trigram' : `${ngramLength}-gram`} Analysis</h3>
+          <div className="tab-row">
+            <select
+              className="mode-filter"
+              value={ngramLength}
+              onChange={(e) => setNgramLength(Number(e.target.value))}
+              aria-label="N-gram length"
+            >
+              {NGRAM_LENGTHS.map(length => (
+                <option key={length} value={length}>{length} letters</option>
+              ))}
+            </select>
+            {showingOverall && ngramLength !== 3 && (
+              <span className="toggle-label">
+                Measured from the {timingHistory.historicalPerformance.filter(game => game.keystrokeLog).length} most recent games, which keep their keystroke log
+              </span>
+            )}
+          </div>
+          <div className="stats-grid">
+            {ngramStats.map(({ ngram, averageTime, occurrences }) => (
+              <div key={ngram} className="stat-item">
+                <span className={`letter ${currentNgramStats.some((stat) => stat.ngram === ngram) ? '' : 'seen'}`}>
+                  {ngram}
+                </span>
+                <span className="time">{averageTime}ms</span>
+                <span className="occurrences">
+                  {occurrences} {'times'}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
       {selectedTab === 'words' && (
         <div className="letter-stats">
           <h3>{showingOverall ? 'Overall' : 'Current'} Word Analysis</h3>
@@ -248,6 +658,18 @@ const ResultsScreen: React.FC<ResultsScreenProps> = ({
           </div>
         </div>
       )}
+      {selectedTab === 'confusions' && (
+        <div className="letter-stats">
+          <h3>{showingOverall ? 'Overall' : 'Current'} Letter Confusions</h3>
+          <ConfusionMatrix confusions={showingOverall ? timingHistory.letterConfusions : letterConfusions} />
+        </div>
+      )}
+      {selectedTab === 'fingers' && (
+        <div className="letter-stats">
+          <h3>{showingOverall ? 'Overall' : 'Current'} Finger Analysis ({keyboardLayout.name})</h3>
+          <FingerAnalysis fingerStats={fingerStats} handStats={handStats} bigramClassStats={bigramClassStats} />
+        </div>
+      )}
       <div className="button-row">
         <button 
           onClick={onDeleteData}
@@ -256,10 +678,53 @@ const ResultsScreen: React.FC<ResultsScreenProps> = ({
           Delete Data
         </button>
 
+        <button onClick={onExportData} className="data-button">
+          Export Data
+        </button>
+
+        <button onClick={handleExportSessionsCsv} className="data-button">
+          Sessions CSV
+        </button>
+
+        <button onClick={() => importInputRef.current?.click()} className="data-button">
+          Import Data
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImportFile}
+          hidden
+        />
+
+        {!showingOverall && latestSession?.keystrokeLog && (
+          <button onClick={() => setReplaySession(latestSession)} className="data-button">
+            Replay
+          </button>
+        )}
+
+        {!showingOverall && challengeSeed !== null && (
+          <button onClick={onShareChallenge} className="data-button">
+            Share Challenge
+          </button>
+        )}
+
         <button onClick={onReset} className="reset-button">
           Try Again
         </button>
       </div>
+      <ImportModal
+        data={pendingImport}
+        onImport={(data, mode) => {
+          setPendingImport(null);
+          onImportData(data, mode);
+        }}
+        onClose={() => setPendingImport(null)}
+      />
+      <ReplayModal
+        session={replaySession}
+        onClose={() => setReplaySession(null)}
+      />
     </div>
   );
 };
@@ -1,122 +1,171 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import './TypingGame.css';
-import { TimingHistory, PerformancePoint } from '../types/types';
+import { TimingHistory, GameMode, GameSession, ExportedData, ImportMode, Profile, ThemeSetting, CustomTheme, KeyboardLayout, TypingState, TypingEvent, Keystroke, GhostSetting, Challenge, TextModes } from '../types/types';
 import { generateWeightedWords, calculateWordStats, calculateOverallWordStats, calculateLetterStats, calculateBigramStats } from '../utils/utils';
+import { addTimingSamples } from '../utils/timingStats';
+import { addLetterConfusions } from '../utils/confusions';
+import { createTypingState, reduceTyping, getWordsRemaining, getGameDuration } from '../utils/typingEngine';
+import { analyzeKeystrokes, pruneKeystrokeLogs, getReplayFrame, getWordFinishTimes, getEventModifiers } from '../utils/keystrokeLog';
+import { findGhostSession, getGhostWords } from '../utils/ghost';
+import { DEFAULT_TEXT_MODES, applyTextModes, endsSentence } from '../utils/textModes';
+import { readChallenge, createChallengeUrl, removeChallengeParams, generateChallengeWords } from '../utils/challenge';
+import { createSeed } from '../utils/random';
+import { findLayout, DEFAULT_LAYOUT_ID } from '../utils/keyboardLayouts';
+import { loadStoredData, saveStoredData, createEmptyTimingHistory, createProfile } from '../utils/storage';
+import { setThemeSetting, setCustomThemes } from '../utils/theme';
+import { createExportData, combineTimingHistory, downloadFile, getDatedFilename } from '../utils/dataExport';
 import GameScreen from './GameScreen/GameScreen';
 import ResultsScreen from './ResultsScreen/ResultsScreen';
+import ProfileBar from './ProfileBar/ProfileBar';
 import { UserPreferences } from '../types/types';
 
-const WORDS_COUNT = 20;
-const STORAGE_KEY = 'type-refiner-data';
+const TIMED_WORDS_BATCH = 30;
+
+// Number of words to generate when a game starts; timed games get more appended as they are typed
+const getInitialWordCount = (mode: GameMode) => {
+  return mode.type === 'words' ? mode.length : TIMED_WORDS_BATCH * 2;
+};
 
 const TypingGame: React.FC = () => {
-  // Array of words to be typed in the current game session
-  const [words, setWords] = useState<string[]>([]);
-  
-  // Current user input for the active word
-  const [currentInput, setCurrentInput] = useState('');
-  
-  // Index of the current word being typed
-  const [wordIndex, setWordIndex] = useState(0);
-  
-  // Timestamp when the game started
-  const [startTime, setStartTime] = useState<number | null>(null);
-  
-  // Record of when each word was started and how many characters were typed
-  const [wordStartTimes, setWordStartTimes] = useState<{ [key: string]: { startTime: number; charsTyped: number } }>({});
-  
-  // Count of mistypes for each word
-  const [wordMistypes, setWordMistypes] = useState<{ [key: string]: number }>({});
-  
-  // Count of mistakes for each letter
-  const [letterMistakes, setLetterMistakes] = useState<{ [key: string]: number }>({});
-  
-  // Total number of keystrokes in the current game
-  const [totalKeystrokes, setTotalKeystrokes] = useState(0);
-  
-  // Total number of typing mistakes in the current game
-  const [totalMistakes, setTotalMistakes] = useState(0);
-
-  // Whether the current game is complete
-  const [isGameComplete, setIsGameComplete] = useState(false);
-  
-  // Timestamp of the last key press
-  const [lastKeyPressTime, setLastKeyPressTime] = useState<number | null>(null);
-  
-  // Array of completed word inputs
-  const [completedInputs, setCompletedInputs] = useState<string[]>([]);
-  
-  // Array of performance data points (WPM and accuracy) for the current game
-  const [performanceData, setPerformanceData] = useState<PerformancePoint[]>([]);
+  // Wall-clock time when the game started, stored with the session record
+  const [sessionStartedAt, setSessionStartedAt] = useState<number | null>(null);
+
+  // Milliseconds elapsed since the first key press, ticked while a timed game is running
+  const [elapsedTime, setElapsedTime] = useState(0);
+
+  // Saved profiles loaded from localStorage before the first render
+  const [storedData] = useState(loadStoredData);
+  const initialProfile = storedData.data.profiles.find(profile => profile.id === storedData.data.activeProfileId)!;
+
+  // All profiles on this device; the active one's data lives in the states below until it is saved
+  const [profiles, setProfiles] = useState<Profile[]>(storedData.data.profiles);
+
+  // Id of the profile whose data is being used
+  const [activeProfileId, setActiveProfileId] = useState(storedData.data.activeProfileId);
 
   // Historical timing data for letters, bigrams, and words
-  const [timingHistory, setTimingHistory] = useState<TimingHistory>({ 
-    letters: {}, 
-    bigrams: {}, 
-    words: {},
-    historicalLetters: {},
-    historicalBigrams: {},
-    historicalWords: {},
-    historicalPerformance: [],
-    wordMistypes: {}
-  });
-
-  // Timing data for the current game session
-  const [typeTimings, setTypeTimings] = useState<{ 
-    letters: { [key: string]: number[] }, 
-    bigrams: { [key: string]: number[] }, 
-    words: { [key: string]: number[] } }>
-    ({ letters: {}, bigrams: {}, words: {} });
-    
+  const [timingHistory, setTimingHistory] = useState<TimingHistory>(initialProfile.timingHistory);
+
+  // Theme of the active profile
+  const [theme, setTheme] = useState<ThemeSetting>(initialProfile.theme);
+
+  // Custom themes shared by all profiles
+  const [customThemes, setCustomThemeList] = useState<CustomTheme[]>(storedData.data.customThemes);
+
+  // The active profile's progress on the keyboard layouts not in use, by layout id
+  const [layoutHistories, setLayoutHistories] = useState<{ [layoutId: string]: TimingHistory }>(initialProfile.layoutHistories);
+
+  // Custom keyboard layouts shared by all profiles
+  const [customLayouts, setCustomLayouts] = useState<KeyboardLayout[]>(storedData.data.customLayouts);
+
+  // Message shown when saved data could not be loaded and was replaced
+  const [storageNotice, setStorageNotice] = useState<string | null>(storedData.notice);
+
   // User preferences for game settings
-  const [preferences, setPreferences] = useState<UserPreferences>({
-    strictMode: true,
-    hideTargets: false,
-    selectedTab: 'letters',
-    showingOverall: false
-  });
-
-  // Load saved typing data from localStorage on component mount
+  const [preferences, setPreferences] = useState<UserPreferences>(initialProfile.preferences);
+
+  // Keyboard layout the typing history in use was recorded on
+  const keyboardLayout = findLayout(preferences.keyboardLayout, customLayouts);
+
+  // State of the typing engine for the current game: words, input, timings, mistakes and completion
+  const [game, setGame] = useState<TypingState>(() => createTypingState([], preferences.gameMode, preferences.strictMode));
+  const { words, wordIndex, currentInput, completedInputs, isComplete: isGameComplete } = game;
+
+  // Challenge being played: every game uses the words of its seed, shared through the page URL
+  const [challenge, setChallenge] = useState<Challenge | null>(() => readChallenge(window.location.search));
+
+  // Seed the words of the current game were generated from, null for games weighted by the typing history
+  const [gameSeed, setGameSeed] = useState<string | null>(null);
+
+  // Text modes the words of the current game were generated with, the challenge's for challenge games
+  const [gameTextModes, setGameTextModes] = useState<TextModes>(preferences.textModes);
+
+  // Recorded game the ghost caret replays during the current game
+  const [ghostSession, setGhostSession] = useState<GameSession | null>(null);
+
+  // Game picked from the history to race, raced again on every retry until the mode or ghost setting changes
+  const [chosenGhost, setChosenGhost] = useState<GameSession | null>(null);
+
+  // Timings and mistakes of the current game, recomputed from its keystroke log
+  const analysis = useMemo(() => analyzeKeystrokes(game.log, game.words, game.mode), [game.log, game.words, game.mode]);
+
+  // Where the ghost would be at the current point of the game
+  const ghostFrame = useMemo(() => {
+    return ghostSession?.keystrokeLog ? getReplayFrame(ghostSession.keystrokeLog, elapsedTime) : null;
+  }, [ghostSession, elapsedTime]);
+  const ghostWordIndex = ghostFrame?.wordIndex;
+  const ghostCaret = ghostFrame?.currentInput.length;
+  const ghostPosition = useMemo(() => {
+    return ghostWordIndex !== undefined && ghostCaret !== undefined ? { wordIndex: ghostWordIndex, caret: ghostCaret } : null;
+  }, [ghostWordIndex, ghostCaret]);
+
+  // Milliseconds the player finished the last word behind the ghost, or ahead when negative
+  const ghostLead = useMemo(() => {
+    if (!ghostSession?.keystrokeLog || wordIndex === 0) return null;
+    const ghostFinish = getWordFinishTimes(ghostSession.keystrokeLog, ghostSession.words, ghostSession.mode)[wordIndex - 1];
+    const finish = getWordFinishTimes(game.log, words, game.mode)[wordIndex - 1];
+    return ghostFinish === undefined || finish === undefined ? null : finish - ghostFinish;
+  }, [ghostSession, wordIndex, game.log, words, game.mode]);
+
+  // Feed an event to the typing engine
+  const dispatch = useCallback((event: TypingEvent) => {
+    setGame(state => reduceTyping(state, event));
+  }, []);
+
+  // Profiles with the active profile's current data written back into it
+  const getSyncedProfiles = useCallback(() => {
+    return profiles.map(profile => profile.id === activeProfileId
+      ? { ...profile, timingHistory, preferences, theme, layoutHistories }
+      : profile);
+  }, [profiles, activeProfileId, timingHistory, preferences, theme, layoutHistories]);
+
+  // Save profiles, typing data and custom themes and layouts to localStorage whenever they change,
+  // telling the user when they could not be saved
   useEffect(() => {
-    const savedData = localStorage.getItem(STORAGE_KEY);
-    if (savedData) {
-      const parsedData = JSON.parse(savedData);
-      setTimingHistory(parsedData);
-      setWords(generateWeightedWords(WORDS_COUNT, parsedData));
-    } else {
-      setWords(generateWeightedWords(WORDS_COUNT, timingHistory));
+    const notice = saveStoredData(activeProfileId, getSyncedProfiles(), customThemes, customLayouts);
+    if (notice) {
+      setStorageNotice(notice);
     }
-  }, []);
+  }, [activeProfileId, getSyncedProfiles, customThemes, customLayouts]);
 
-  // Save typing data to localStorage whenever it changes
+  // Make custom themes available to the theme setting
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(timingHistory));
-  }, [timingHistory]);
+    setCustomThemes(customThemes);
+  }, [customThemes]);
+
+  // Apply the active profile's theme
+  useEffect(() => {
+    setThemeSetting(theme);
+  }, [theme]);
+
+  // Keystroke log of the last game added to the history, so a finished game is only recorded once
+  const recordedLogRef = useRef<Keystroke[] | null>(null);
 
   // Update performance statistics when game is complete
   useEffect(() => {
-    if (isGameComplete) {
+    if (isGameComplete && recordedLogRef.current !== game.log) {
+      recordedLogRef.current = game.log;
+      const { timings: typeTimings, wordMistypes } = analysis;
+      const { performanceData } = game;
       const letterStats = calculateLetterStats(words, wordIndex, completedInputs, currentInput, typeTimings.letters);
       const bigramStats = calculateBigramStats(words, wordIndex, completedInputs, currentInput, typeTimings.bigrams);
       
       const newLetterTimings: { [key: string]: number } = {};
       const newBigramTimings: { [key: string]: number } = {};
+      const newTrigramTimings: { [key: string]: number } = {};
       const newWordTimings: { [key: string]: number } = {};
       const newHistoricalLetters = { ...timingHistory.historicalLetters };
       const newHistoricalBigrams = { ...timingHistory.historicalBigrams };
+      const newHistoricalTrigrams = { ...timingHistory.historicalTrigrams };
       const newHistoricalWords = { ...timingHistory.historicalWords };
       const newWordMistypes = { ...timingHistory.wordMistypes };
       
-      words.forEach((word, idx) => {
-        const input = completedInputs[idx];
+      words.forEach(word => {
         const times = typeTimings.words[word] || [];
         if (times.length > 0) {
           newWordTimings[word] = Math.round(times.reduce((a, b) => a + b, 0) / times.length);
           
-          if (!newHistoricalWords[word]) {
-            newHistoricalWords[word] = [];
-          }
-          newHistoricalWords[word].push(...times);
+          newHistoricalWords[word] = addTimingSamples(newHistoricalWords[word], times);
         }
         if (wordMistypes[word]) {
           newWordMistypes[word] = (newWordMistypes[word] || 0) + wordMistypes[word];
@@ -136,10 +185,7 @@ const TypingGame: React.FC = () => {
           });
         });
         
-        if (!newHistoricalLetters[letter]) {
-          newHistoricalLetters[letter] = [];
-        }
-        newHistoricalLetters[letter] = [...newHistoricalLetters[letter], ...currentTimings];
+        newHistoricalLetters[letter] = addTimingSamples(newHistoricalLetters[letter], currentTimings);
       });
       
       bigramStats.forEach(({ bigram, averageTime }) => {
@@ -160,323 +206,374 @@ const TypingGame: React.FC = () => {
           }
         });
         
-        if (!newHistoricalBigrams[bigram]) {
-          newHistoricalBigrams[bigram] = [];
-        }
-        newHistoricalBigrams[bigram] = [...newHistoricalBigrams[bigram], ...currentTimings];
+        newHistoricalBigrams[bigram] = addTimingSamples(newHistoricalBigrams[bigram], currentTimings);
       });
       
+      // Trigram timings only include trigrams typed correctly, so they can be used as they are
+      Object.entries(typeTimings.trigrams).forEach(([trigram, times]) => {
+        newTrigramTimings[trigram] = Math.round(times.reduce((a, b) => a + b, 0) / times.length);
+        newHistoricalTrigrams[trigram] = addTimingSamples(newHistoricalTrigrams[trigram], times);
+      });
+
+      const lastPoint = performanceData[performanceData.length - 1];
+      const duration = getGameDuration(game);
+      const startedAt = sessionStartedAt || Date.now() - duration;
+      const session: GameSession = {
+        id: String(startedAt),
+        startedAt,
+        endedAt: startedAt + duration,
+        duration,
+        mode: game.mode,
+        settings: { strictMode: game.strictMode, hideTargets: preferences.hideTargets, textModes: gameTextModes },
+        words: words.slice(0, completedInputs.length),
+        keystrokes: analysis.keystrokes,
+        mistakes: analysis.mistakes,
+        wpm: lastPoint.wpm,
+        accuracy: lastPoint.accuracy,
+        keystrokeLog: game.log,
+        seed: gameSeed
+      };
+
       setTimingHistory({
         letters: newLetterTimings,
         bigrams: newBigramTimings,
+        trigrams: newTrigramTimings,
         words: newWordTimings,
         historicalLetters: newHistoricalLetters,
         historicalBigrams: newHistoricalBigrams,
+        historicalTrigrams: newHistoricalTrigrams,
         historicalWords: newHistoricalWords,
-        historicalPerformance: [...timingHistory.historicalPerformance, { wpm: performanceData[performanceData.length - 1].wpm, accuracy: performanceData[performanceData.length - 1].accuracy }],
-        wordMistypes: newWordMistypes
+        historicalPerformance: pruneKeystrokeLogs([...timingHistory.historicalPerformance, session]),
+        wordMistypes: newWordMistypes,
+        letterConfusions: addLetterConfusions(timingHistory.letterConfusions, analysis.letterConfusions)
       });
     }
-  }, [isGameComplete]);
-
-  // Update performance metrics in real-time as user types
-  const updatePerformanceData = useCallback((overrideInput: string, currentTime: number) => {
-    if (!startTime) return;
-  
-    const timeInMinutes = (currentTime - startTime) / 60000;
-  
-    let totalCorrectChars = 0;
-    let totalPossibleChars = 0;
-  
-    for (let idx = 0; idx <= wordIndex; idx++) {
-      const word = words[idx];
-      const input = idx < wordIndex ? completedInputs[idx] : overrideInput;
-      
-      totalPossibleChars += word.length;
-      
-      for (let charIdx = 0; charIdx < word.length; charIdx++) {
-        if (input && input[charIdx] === word[charIdx]) {
-          totalCorrectChars++;
-        }
-      }
+  }, [isGameComplete, game, analysis, words, wordIndex, completedInputs, currentInput, timingHistory, sessionStartedAt, gameSeed, gameTextModes, preferences.hideTargets]);
 
-      if (idx < wordIndex) {
-        totalCorrectChars++;
-        totalPossibleChars++;
-      }
+  // Record the wall-clock start time when the first key press starts the clock
+  useEffect(() => {
+    setSessionStartedAt(game.startTime !== null ? Math.round(Date.now() - (performance.now() - game.startTime)) : null);
+  }, [game.startTime]);
+
+  // Keep the engine's strict mode in step with the preference, which can be toggled mid-game
+  useEffect(() => {
+    dispatch({ type: 'setStrictMode', strictMode: preferences.strictMode });
+  }, [preferences.strictMode, dispatch]);
+
+  // Keep timed games supplied with words ahead of the cursor
+  useEffect(() => {
+    if (game.mode.type === 'time' && !game.isComplete && words.length > 0 && getWordsRemaining(game) <= TIMED_WORDS_BATCH / 2) {
+      const newWords = gameSeed !== null
+        ? generateChallengeWords(TIMED_WORDS_BATCH, `${gameSeed}:${words.length}`, gameTextModes, words)
+        : applyTextModes(
+          generateWeightedWords(TIMED_WORDS_BATCH, timingHistory, words, Math.random, keyboardLayout),
+          gameTextModes,
+          timingHistory,
+          Math.random,
+          endsSentence(words[words.length - 1])
+        );
+      dispatch({ type: 'addWords', words: newWords });
     }
-  
-    const currentAccuracy = totalPossibleChars > 0 
-      ? Math.round((totalCorrectChars / totalPossibleChars) * 100)
-      : 100;
-  
-    const standardizedWords = totalCorrectChars / 5;
-    const currentWPM = timeInMinutes > 0 
-      ? Math.round((standardizedWords / timeInMinutes) * 100) / 100
-      : 0;
-  
-    setPerformanceData(prev => {
-      const newPoint = {
-        wordIndex,
-        wpm: currentWPM,
-        accuracy: currentAccuracy
-      };
-  
-      if (prev.length > 0 && prev[prev.length - 1].wordIndex === wordIndex) {
-        return [...prev.slice(0, -1), newPoint];
-      }
-      return [...prev, newPoint];
-    });
-  }, [startTime, wordIndex, words, completedInputs]);
-  
+  }, [game, words, gameSeed, gameTextModes, timingHistory, keyboardLayout, dispatch]);
+
   // Handle keyboard input during the typing game
   const handleKeyPress = useCallback((e: KeyboardEvent) => {
-    if (e.key.length === 1 || e.key === ' ') {
+    if (e.key.length === 1 || e.key === 'Backspace') {
       e.preventDefault();
-      
-      const currentWord = words[wordIndex];
-      if (!currentWord) return;
-
-      const currentTime = performance.now();
-      let newStartTime = startTime;
-      let newLetterTimings = {...typeTimings.letters};
-      let newBigramTimings = {...typeTimings.bigrams};
-      let newWordTimings = {...typeTimings.words};
-      let newLetterMistakes = {...letterMistakes};
-      let newTotalMistakes = totalMistakes;
-      let newTotalKeystrokes = totalKeystrokes;
-      let newLastKeyPressTime = currentTime;
-      let newCompletedInputs = [...completedInputs];
-      let newWordIndex = wordIndex;
-      let newCurrentInput = currentInput;
-      let newIsGameComplete = isGameComplete;
-      let newWordStartTimes = {...wordStartTimes};
-      let newWordMistypes = {...wordMistypes};
-
-      if (!startTime) {
-        newStartTime = currentTime;
-      }
+      dispatch({ type: 'keydown', key: e.key, code: e.code, modifiers: getEventModifiers(e), time: performance.now() });
+    }
+  }, [dispatch]);
 
-      if (!newWordStartTimes[currentWord]) {
-        newWordStartTimes[currentWord] = { startTime: currentTime, charsTyped: 0 };
+  // Attach and detach keyboard event listener
+  useEffect(() => {
+    const handleGlobalKeyPress = (e: KeyboardEvent) => {
+      // Leave keys typed into form controls, such as the custom word count, to the control
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement || e.target instanceof HTMLTextAreaElement) {
+        return;
+      }
+      if (!isGameComplete) {
+        handleKeyPress(e);
       }
+    };
+    
+    window.addEventListener('keydown', handleGlobalKeyPress);
+    return () => window.removeEventListener('keydown', handleGlobalKeyPress);
+  }, [isGameComplete, handleKeyPress]);
 
-      if (e.key === ' ') {
-        if (currentInput.length === 0) {
-          return;
-        }
+  // Tick the clock while a timed game or a ghost race is running; the engine ends timed games when time runs out
+  useEffect(() => {
+    if ((game.mode.type !== 'time' && !ghostSession) || game.startTime === null || isGameComplete) return;
+
+    const startTime = game.startTime;
+    const interval = setInterval(() => {
+      const now = performance.now();
+      setElapsedTime(now - startTime);
+      dispatch({ type: 'tick', time: now });
+    }, 100);
+    return () => clearInterval(interval);
+  }, [game.mode, game.startTime, isGameComplete, ghostSession, dispatch]);
+
+  // Start a new session in the given mode, picking words from the given history (recorded on the given layout)
+  // with the given text modes, or from the challenge's seed with its text modes, or racing the ghost on its words
+  const startNewGame = useCallback((
+    mode: GameMode,
+    history: TimingHistory = timingHistory,
+    gameChallenge: Challenge | null = null,
+    ghost: GameSession | null = findGhostSession(history, mode, preferences.ghost, gameChallenge?.seed ?? null),
+    layout: KeyboardLayout = keyboardLayout,
+    textModes: TextModes = preferences.textModes
+  ) => {
+    const count = getInitialWordCount(mode);
+    const newWords = gameChallenge
+      ? generateChallengeWords(count, gameChallenge.seed, gameChallenge.textModes)
+      : ghost
+        ? getGhostWords(ghost, count, history, layout, textModes)
+        : applyTextModes(generateWeightedWords(count, history, [], Math.random, layout), textModes, history);
+    setGame(createTypingState(newWords, mode, preferences.strictMode));
+    setGameSeed(gameChallenge?.seed ?? null);
+    setGameTextModes(gameChallenge ? gameChallenge.textModes : textModes);
+    setGhostSession(ghost);
+    setElapsedTime(0);
+  }, [timingHistory, preferences.strictMode, preferences.ghost, preferences.textModes, keyboardLayout]);
+
+  // Whether the first game has been set up
+  const hasStartedRef = useRef(false);
+
+  // Generate the first word list from the loaded data on component mount
+  useEffect(() => {
+    if (hasStartedRef.current) return;
+    hasStartedRef.current = true;
+    if (challenge) {
+      setPreferences({ ...preferences, gameMode: challenge.mode });
+      startNewGame(challenge.mode, timingHistory, challenge);
+    } else {
+      startNewGame(preferences.gameMode);
+    }
+  }, [challenge, preferences, timingHistory, startNewGame]);
 
-        if (currentInput.length > 0) {
-          const wordStartData = newWordStartTimes[currentWord];
-          if (wordStartData) {
-            const totalTime = currentTime - wordStartData.startTime;
-            const normalizedTime = Math.round(totalTime / currentWord.length);
-            const times = newWordTimings[currentWord] || [];
-            newWordTimings[currentWord] = [...times, normalizedTime];
-          }
+  // Reset game state for a new session in the current mode, or the next attempt at the challenge
+  const resetGame = useCallback(() => {
+    startNewGame(preferences.gameMode, timingHistory, challenge, chosenGhost || undefined);
+  }, [startNewGame, preferences.gameMode, timingHistory, challenge, chosenGhost]);
 
-          const remainingChars = currentWord.slice(currentInput.length);
-          if (remainingChars.length > 0) {
-            newWordMistypes[currentWord] = (newWordMistypes[currentWord] || 0) + remainingChars.length;
-          }
+  // Stop playing the challenge and take it out of the page URL
+  const leaveChallenge = () => {
+    setChallenge(null);
+    window.history.replaceState(null, '', removeChallengeParams(window.location.href));
+  };
 
-          if (preferences.strictMode && currentInput !== currentWord) {
-            return;
-          }
-        }
-        
-        const remainingChars = currentWord.slice(currentInput.length);
-        remainingChars.split('').forEach(char => {
-          newLetterMistakes[char] = (newLetterMistakes[char] || 0) + 1;
-        });
-        newTotalMistakes += remainingChars.length;
-        
-        if (wordIndex === words.length - 1) {
-          newCompletedInputs.push(currentInput);
-          newIsGameComplete = true;
-          updatePerformanceData(currentInput, currentTime);
-        } else {
-          newCompletedInputs.push(currentInput);
-          newWordIndex = wordIndex + 1;
-          const nextWord = words[wordIndex + 1];
-          if (nextWord) {
-            newWordStartTimes[nextWord] = { startTime: currentTime, charsTyped: 0 };
-          }
-          newCurrentInput = '';
-          updatePerformanceData(currentInput, currentTime);
-        }
-      } else {
-        if (currentInput.length >= currentWord.length) {
-          return;
-        }
+  // Switch game mode and start over with a fresh word list
+  const handleGameModeChange = (mode: GameMode) => {
+    setPreferences({...preferences, gameMode: mode});
+    setChosenGhost(null);
+    leaveChallenge();
+    startNewGame(mode);
+  };
 
-        if (newWordStartTimes[currentWord]) {
-          newWordStartTimes[currentWord].charsTyped = currentInput.length + 1;
-        }
+  // Change the capitalization, punctuation and number modes and start over with text using them
+  const handleTextModesChange = (textModes: TextModes) => {
+    setPreferences({...preferences, textModes});
+    startNewGame(preferences.gameMode, timingHistory, challenge, chosenGhost || undefined, keyboardLayout, textModes);
+  };
 
-        if (lastKeyPressTime) {
-          const charTimeDiff = currentTime - lastKeyPressTime;
-          const timings = newLetterTimings[e.key] || [];
-          newLetterTimings[e.key] = [...timings, charTimeDiff];
+  // Choose which recorded game to race and start over against it
+  const handleGhostChange = (ghost: GhostSetting) => {
+    setPreferences({...preferences, ghost});
+    setChosenGhost(null);
+    startNewGame(preferences.gameMode, timingHistory, challenge, findGhostSession(timingHistory, preferences.gameMode, ghost, challenge?.seed ?? null));
+  };
 
-          if (currentInput.length > 0) {
-            const prevChar = currentInput[currentInput.length - 1];
-            const bigram = prevChar + e.key;
-            const bigramTimings = newBigramTimings[bigram] || [];
-            newBigramTimings[bigram] = [...bigramTimings, charTimeDiff];
-          }
-        }
+  // Race a game picked from the history, in its mode and on its words; racing a challenge game plays that challenge
+  const handleRaceSession = (session: GameSession) => {
+    setPreferences({...preferences, gameMode: session.mode});
+    setChosenGhost(session);
+    const sessionChallenge = session.seed !== null
+      ? { seed: session.seed, mode: session.mode, textModes: session.settings?.textModes ?? DEFAULT_TEXT_MODES }
+      : null;
+    if (sessionChallenge) {
+      setChallenge(sessionChallenge);
+    } else {
+      leaveChallenge();
+    }
+    startNewGame(session.mode, timingHistory, sessionChallenge, session);
+  };
 
-        newCurrentInput = currentInput + e.key;
-        newTotalKeystrokes += 1;
-        
-        const expectedChar = currentWord[currentInput.length];
-        if (expectedChar !== undefined && expectedChar !== e.key) {
-          newLetterMistakes[expectedChar] = (newLetterMistakes[expectedChar] || 0) + 1;
-          newTotalMistakes += 1;
-          newWordMistypes[currentWord] = (newWordMistypes[currentWord] || 0) + 1;
-        }
+  // Start a challenge in the current mode, or keep the one being played, and share a link to it
+  const handleShareChallenge = () => {
+    let current = challenge;
+    if (!current) {
+      current = { seed: createSeed(), mode: preferences.gameMode, textModes: preferences.textModes };
+      setChallenge(current);
+      setChosenGhost(null);
+      startNewGame(current.mode, timingHistory, current);
+    }
 
-        if (wordIndex === words.length - 1 && newCurrentInput.length >= currentWord.length) {
-          const wordStartData = newWordStartTimes[currentWord];
-          if (wordStartData) {
-            const totalTime = currentTime - wordStartData.startTime;
-            const normalizedTime = Math.round(totalTime / currentWord.length);
-            const times = newWordTimings[currentWord] || [];
-            newWordTimings[currentWord] = [...times, normalizedTime];
-          }
+    const url = createChallengeUrl(current, window.location.href);
+    window.history.replaceState(null, '', url);
+    const showLink = () => window.prompt('Send this link to play the same words:', url);
+    if (navigator.clipboard) {
+      navigator.clipboard.writeText(url).then(() => window.alert('Challenge link copied to the clipboard.'), showLink);
+    } else {
+      showLink();
+    }
+  };
 
-          newCompletedInputs.push(newCurrentInput);
-          newIsGameComplete = true;
-          updatePerformanceData(newCurrentInput, currentTime);
-        } else {
-          updatePerformanceData(newCurrentInput, currentTime);
-        }
-      }
+  // Go back to practice words weighted by the typing history
+  const handleLeaveChallenge = () => {
+    leaveChallenge();
+    setChosenGhost(null);
+    startNewGame(preferences.gameMode);
+  };
 
-      setStartTime(newStartTime);
-      setTypeTimings({letters: newLetterTimings, bigrams: newBigramTimings, words: newWordTimings});
-      setLetterMistakes(newLetterMistakes);
-      setTotalMistakes(newTotalMistakes);
-      setTotalKeystrokes(newTotalKeystrokes);
-      setLastKeyPressTime(newLastKeyPressTime);
-      setCompletedInputs(newCompletedInputs);
-      setWordIndex(newWordIndex);
-      setCurrentInput(newCurrentInput);
-      setIsGameComplete(newIsGameComplete);
-      setWordStartTimes(newWordStartTimes);
-      setWordMistypes(newWordMistypes);
-    } else if (e.key === 'Backspace') {
-      e.preventDefault();
-      const newInput = currentInput.slice(0, -1);
-      updatePerformanceData(newInput, performance.now());
-      setCurrentInput(newInput);
+  // Switch to another keyboard layout, putting away the progress on the current one unless it is being dropped,
+  // and picking up the progress on the new one
+  const switchLayout = (layoutId: string, histories = layoutHistories, keepCurrent = true) => {
+    const newHistory = histories[layoutId] || createEmptyTimingHistory();
+    const newLayoutHistories = keepCurrent ? { ...histories, [preferences.keyboardLayout]: timingHistory } : { ...histories };
+    delete newLayoutHistories[layoutId];
+    setLayoutHistories(newLayoutHistories);
+    setTimingHistory(newHistory);
+    setPreferences({...preferences, keyboardLayout: layoutId});
+    setChosenGhost(null);
+    startNewGame(preferences.gameMode, newHistory, challenge, findGhostSession(newHistory, preferences.gameMode, preferences.ghost, challenge?.seed ?? null), findLayout(layoutId, customLayouts));
+  };
+
+  const handleLayoutChange = (layoutId: string) => {
+    if (layoutId !== preferences.keyboardLayout) {
+      switchLayout(layoutId);
     }
-  }, [words, wordIndex, currentInput, startTime, lastKeyPressTime, preferences.strictMode, typeTimings.letters, typeTimings.bigrams, typeTimings.words, letterMistakes, totalMistakes, totalKeystrokes, completedInputs, updatePerformanceData]);
+  };
 
-  // Attach and detach keyboard event listener
-  useEffect(() => {
-    const handleGlobalKeyPress = (e: KeyboardEvent) => {
-      if (!isGameComplete) {
-        handleKeyPress(e);
-      }
-    };
-    
-    window.addEventListener('keydown', handleGlobalKeyPress);
-    return () => window.removeEventListener('keydown', handleGlobalKeyPress);
-  }, [isGameComplete, handleKeyPress]);
+  // Save edited custom layouts; progress on deleted layouts is dropped, and deleting the one in use goes back to the default
+  const handleCustomLayoutsChange = (newLayouts: KeyboardLayout[]) => {
+    const deletedIds = customLayouts.map(layout => layout.id).filter(id => !newLayouts.some(layout => layout.id === id));
+    const remainingHistories = { ...layoutHistories };
+    deletedIds.forEach(id => delete remainingHistories[id]);
+    setCustomLayouts(newLayouts);
 
-  // Calculate final typing statistics
-  const calculateStats = () => {
-    if (!startTime || !isGameComplete) return null;
+    if (deletedIds.includes(preferences.keyboardLayout)) {
+      switchLayout(DEFAULT_LAYOUT_ID, remainingHistories, false);
+    } else {
+      setLayoutHistories(remainingHistories);
+    }
+  };
 
-    const timeInMinutes = (performance.now() - startTime) / 60000;
-    
-    let totalCorrectChars = 0;
-    let totalExpectedChars = 0;
+  // Delete all saved typing data of the active profile on the layout in use
+  const handleDeleteData = () => {
+    if (window.confirm(`Are you sure you want to delete all your typing data on the ${keyboardLayout.name} layout for this profile? This action cannot be undone.`)) {
+      const emptyHistory = createEmptyTimingHistory();
+      setTimingHistory(emptyHistory);
+      setChosenGhost(null);
+      startNewGame(preferences.gameMode, emptyHistory, challenge);
+    }
+  };
 
-    words.forEach((word, idx) => {
-      const input = completedInputs[idx] || '';
-      
-      for (let charIdx = 0; charIdx < word.length; charIdx++) {
-        totalExpectedChars++;
-        if (input[charIdx] === word[charIdx]) {
-          totalCorrectChars++;
-        }
-      }
+  // Download all typing data and preferences as a JSON file
+  const handleExportData = () => {
+    downloadFile(getDatedFilename('data', 'json'), createExportData(timingHistory, preferences, theme), 'application/json');
+  };
 
-      if (idx < words.length - 1 && input.length >= word.length) {
-        totalCorrectChars++;
-        totalExpectedChars++;
+  // Replace or merge the current data with an imported export file, then start a fresh game
+  // Only the progress on the layout the file was recorded on is replaced or merged
+  const handleImportData = (data: ExportedData, mode: ImportMode) => {
+    const importedLayout = data.preferences.keyboardLayout;
+    const importedHistory = combineTimingHistory(
+      importedLayout === preferences.keyboardLayout ? timingHistory : layoutHistories[importedLayout] || createEmptyTimingHistory(),
+      data.timingHistory,
+      mode
+    );
+    const newPreferences = mode === 'replace' ? data.preferences : preferences;
+    const newLayoutHistories = { ...layoutHistories };
+    let newHistory = timingHistory;
+    if (newPreferences.keyboardLayout === importedLayout) {
+      if (importedLayout !== preferences.keyboardLayout) {
+        newLayoutHistories[preferences.keyboardLayout] = timingHistory;
+        delete newLayoutHistories[importedLayout];
       }
+      newHistory = importedHistory;
+    } else {
+      newLayoutHistories[importedLayout] = importedHistory;
+      window.alert(`The imported data was recorded on the ${findLayout(importedLayout, customLayouts).name} layout, so it was added to your progress on that layout.`);
+    }
+    setLayoutHistories(newLayoutHistories);
+    setTimingHistory(newHistory);
+    setPreferences(newPreferences);
+    if (mode === 'replace') {
+      setTheme(data.theme);
+    }
+    setChosenGhost(null);
+    leaveChallenge();
+    startNewGame(newPreferences.gameMode, newHistory, null, findGhostSession(newHistory, newPreferences.gameMode, newPreferences.ghost), findLayout(newPreferences.keyboardLayout, customLayouts), newPreferences.textModes);
+  };
 
-      if (input.length > word.length) {
-        totalExpectedChars += input.length - word.length;
-      }
-    });
+  // Make a profile the active one and start a fresh game with its data
+  const activateProfile = (profile: Profile, allProfiles: Profile[]) => {
+    setProfiles(allProfiles);
+    setActiveProfileId(profile.id);
+    setTimingHistory(profile.timingHistory);
+    setLayoutHistories(profile.layoutHistories);
+    setPreferences(profile.preferences);
+    setTheme(profile.theme);
+    setChosenGhost(null);
+    leaveChallenge();
+    startNewGame(profile.preferences.gameMode, profile.timingHistory, null, findGhostSession(profile.timingHistory, profile.preferences.gameMode, profile.preferences.ghost), findLayout(profile.preferences.keyboardLayout, customLayouts), profile.preferences.textModes);
+  };
 
-    const accuracy = totalExpectedChars > 0 
-      ? Math.round((totalCorrectChars / totalExpectedChars) * 100)
-      : 100;
+  const handleSwitchProfile = (id: string) => {
+    const syncedProfiles = getSyncedProfiles();
+    const profile = syncedProfiles.find(p => p.id === id);
+    if (profile) {
+      activateProfile(profile, syncedProfiles);
+    }
+  };
 
-    const standardizedWords = totalCorrectChars / 5;
-    const wpm = Math.round((standardizedWords / timeInMinutes) * 100) / 100;
+  const handleCreateProfile = (name: string) => {
+    const profile = createProfile(name);
+    activateProfile(profile, [...getSyncedProfiles(), profile]);
+  };
 
-    return { wpm, accuracy };
+  const handleRenameProfile = (id: string, name: string) => {
+    setProfiles(profiles.map(profile => profile.id === id ? { ...profile, name } : profile));
   };
-  
-  const stats = calculateStats();
 
-  // Reset game state for a new session
-  const resetGame = useCallback(() => {
-    setWords(generateWeightedWords(WORDS_COUNT, timingHistory));
-    setCurrentInput('');
-    setWordIndex(0);
-    setStartTime(null);
-    setTypeTimings({letters: {}, bigrams: {}, words: {}});
-    setWordStartTimes({});
-    setWordMistypes({});
-    setLetterMistakes({});
-    setTotalKeystrokes(0);
-    setTotalMistakes(0);
-    setIsGameComplete(false);
-    setLastKeyPressTime(null);
-    setCompletedInputs([]);
-    setPerformanceData([]);
-  }, [timingHistory]);
-
-  // Delete all saved typing data
-  const handleDeleteData = () => {
-    if (window.confirm('Are you sure you want to delete all your typing data? This action cannot be undone.')) {
-      const emptyHistory = { 
-        letters: {}, 
-        bigrams: {}, 
-        words: {},
-        historicalLetters: {},
-        historicalBigrams: {},
-        historicalWords: {},
-        historicalPerformance: [],
-        wordMistypes: {}
-      };
-      localStorage.removeItem(STORAGE_KEY);
-      setTimingHistory(emptyHistory);
-      setWords(generateWeightedWords(WORDS_COUNT, emptyHistory));
-      setCurrentInput('');
-      setWordIndex(0);
-      setStartTime(null);
-      setTypeTimings({letters: {}, bigrams: {}, words: {}});
-      setLetterMistakes({});
-      setTotalKeystrokes(0);
-      setTotalMistakes(0);
-      setIsGameComplete(false);
-      setLastKeyPressTime(null);
-      setCompletedInputs([]);
-      setPerformanceData([]);
+  const handleDeleteProfile = (id: string) => {
+    const remainingProfiles = getSyncedProfiles().filter(profile => profile.id !== id);
+    if (remainingProfiles.length === 0) return;
+
+    if (id === activeProfileId) {
+      activateProfile(remainingProfiles[0], remainingProfiles);
+    } else {
+      setProfiles(remainingProfiles);
     }
   };
 
+  // Create a new profile starting from a copy of another profile's data
+  const handleCopyProfile = (id: string, name: string) => {
+    const syncedProfiles = getSyncedProfiles();
+    const source = syncedProfiles.find(profile => profile.id === id);
+    if (!source) return;
+
+    const profile = createProfile(name, source.timingHistory, source.preferences, source.theme, source.layoutHistories);
+    activateProfile(profile, [...syncedProfiles, profile]);
+  };
+
   return (
     <div className="typing-game">
+      {storageNotice && (
+        <div className="storage-notice" role="alert">
+          <span>{storageNotice}</span>
+          <button className="storage-notice-close" onClick={() => setStorageNotice(null)}>&times;</button>
+        </div>
+      )}
+      <ProfileBar
+        profiles={profiles}
+        activeProfileId={activeProfileId}
+        onSwitchProfile={handleSwitchProfile}
+        onCreateProfile={handleCreateProfile}
+        onRenameProfile={handleRenameProfile}
+        onDeleteProfile={handleDeleteProfile}
+        onCopyProfile={handleCopyProfile}
+      />
       {!isGameComplete ? (
         <GameScreen
           words={words}
@@ -486,26 +583,58 @@ const TypingGame: React.FC = () => {
           timingHistory={timingHistory}
           strictMode={preferences.strictMode}
           hideTargets={preferences.hideTargets}
+          theme={theme}
+          gameMode={preferences.gameMode}
+          timeRemaining={preferences.gameMode.type === 'time' && game.startTime !== null
+            ? Math.max(0, preferences.gameMode.length * 1000 - elapsedTime)
+            : null}
+          ghostSetting={preferences.ghost}
+          isRacingChosenGame={!!chosenGhost}
+          hasGhost={!!ghostSession}
+          ghostPosition={ghostPosition}
+          ghostLead={ghostLead}
+          onChangeGameMode={handleGameModeChange}
           onToggleStrictMode={() => setPreferences({...preferences, strictMode: !preferences.strictMode})}
           onToggleHideTargets={() => setPreferences({...preferences, hideTargets: !preferences.hideTargets})}
+          customThemes={customThemes}
+          onChangeTheme={setTheme}
+          onChangeCustomThemes={setCustomThemeList}
+          keyboardLayout={keyboardLayout}
+          customLayouts={customLayouts}
+          onChangeLayout={handleLayoutChange}
+          onChangeCustomLayouts={handleCustomLayoutsChange}
+          challengeSeed={challenge?.seed ?? null}
+          onChangeGhost={handleGhostChange}
+          textModes={challenge ? challenge.textModes : preferences.textModes}
+          onChangeTextModes={handleTextModesChange}
+          onShareChallenge={handleShareChallenge}
+          onLeaveChallenge={handleLeaveChallenge}
         />
       ) : (
         <ResultsScreen
-          performanceData={performanceData}
+          performanceData={game.performanceData}
           timingHistory={timingHistory}
           showingOverall={preferences.showingOverall}
           selectedTab={preferences.selectedTab}
+          gameMode={preferences.gameMode}
           words={words}
           wordIndex={wordIndex}
           completedInputs={completedInputs}
           currentInput={currentInput}
-          typeTimings={typeTimings}
+          typeTimings={analysis.timings}
+          keyboardLayout={keyboardLayout}
+          letterConfusions={analysis.letterConfusions}
           onTabChange={(tab) => setPreferences({...preferences, selectedTab: tab})}
           onToggleOverall={() => setPreferences({...preferences, showingOverall: !preferences.showingOverall})}
+          ghostSession={ghostSession}
           onReset={resetGame}
+          onRaceSession={handleRaceSession}
+          onShareChallenge={handleShareChallenge}
           onDeleteData={handleDeleteData}
-          calculateWordStats={() => calculateWordStats(words, typeTimings.words, wordMistypes)}
-          calculateOverallWordStats={() => calculateOverallWordStats(words, typeTimings.words, wordMistypes, timingHistory, isGameComplete)}
+          onExportData={handleExportData}
+          onImportData={handleImportData}
+          calculateWordStats={() => calculateWordStats(words, analysis.timings.words, analysis.wordMistypes)}
+          calculateOverallWordStats={() => calculateOverallWordStats(words, analysis.timings.words, analysis.wordMistypes, timingHistory, isGameComplete)}
         />
       )}
     </div>
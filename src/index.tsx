@@ -3,9 +3,12 @@ import ReactDOM from 'react-dom/client';
 import './index.css';
 import App from './App';
 import reportWebVitals from './reportWebVitals';
+import { applySavedTheme } from './utils/theme';
 
 <link href="https://fonts.googleapis.com/css2?family=Roboto+Mono&display=swap" rel="stylesheet" />
 
+applySavedTheme();
+
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
 );
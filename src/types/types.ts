@@ -10,6 +10,78 @@ export interface LetterMistake {
   count: number;
 }
 
+export interface KeyStat {
+  key: string;
+  averageTime: number;
+  occurrences: number;
+  mistakes: number;
+  errorRate: number;
+}
+
+export interface KeyboardLayout {
+  id: string;
+  name: string;
+  // Character keys of each row from the number row down, left to right
+  rows: string[];
+}
+
+export type Hand = 'left' | 'right';
+
+export type Finger =
+  | 'left-pinky' | 'left-ring' | 'left-middle' | 'left-index'
+  | 'right-index' | 'right-middle' | 'right-ring' | 'right-pinky';
+
+export interface KeyPosition {
+  key: string;
+  row: number;
+  column: number;
+  finger: Finger;
+  hand: Hand;
+}
+
+export interface FingerStat {
+  finger: Finger;
+  averageTime: number;
+  occurrences: number;
+  mistakes: number;
+  errorRate: number;
+}
+
+export interface HandStat {
+  hand: Hand;
+  averageTime: number;
+  occurrences: number;
+  mistakes: number;
+  errorRate: number;
+}
+
+export interface ShiftedCharacterTiming extends LetterTiming {
+  // Average time of the same key typed without Shift, such as "t" for "T", or null if not typed
+  unshiftedTime: number | null;
+}
+
+export interface ShiftStats {
+  shiftedTime: number;
+  shiftedCount: number;
+  unshiftedTime: number;
+  unshiftedCount: number;
+  characters: ShiftedCharacterTiming[];
+}
+
+export interface DetectedLayout {
+  layout: KeyboardLayout;
+  matchRate: number;
+  keys: number;
+}
+
+export type BigramClass = 'same-finger' | 'row-jump' | 'same-hand' | 'alternating';
+
+export interface BigramClassStat {
+  bigramClass: BigramClass;
+  averageTime: number;
+  occurrences: number;
+}
+
 export interface PerformancePoint {
   wordIndex: number;
   wpm: number;
@@ -22,25 +94,242 @@ export interface BigramTiming {
   occurrences: number;
 }
 
+export interface NgramTiming {
+  ngram: string;
+  averageTime: number;
+  occurrences: number;
+}
+
+export interface GameMode {
+  type: 'words' | 'time';
+  length: number;
+}
+
 export interface GamePerformance {
   wpm: number;
   accuracy: number;
+  mode?: GameMode;
+}
+
+export type CapitalizationMode = 'off' | 'sentence' | 'random';
+
+export interface TextModes {
+  capitalization: CapitalizationMode;
+  punctuation: boolean;
+  numbers: boolean;
+  // Replaces the words with digits, dates, IP addresses, prices and programming symbols
+  symbols: boolean;
+}
+
+export interface SessionSettings {
+  strictMode: boolean;
+  hideTargets: boolean;
+  textModes: TextModes;
+}
+
+export type Modifier = 'Shift' | 'Control' | 'Alt' | 'Meta' | 'AltGraph' | 'CapsLock';
+
+export interface Keystroke {
+  key: string;
+  code: string;
+  modifiers: Modifier[];
+  time: number;
+  wordIndex: number;
+  caret: number;
+  correct: boolean;
+  backspace: boolean;
+  ignored: boolean;
+}
+
+export interface GameSession {
+  id: string;
+  startedAt: number | null;
+  endedAt: number | null;
+  duration: number | null;
+  mode: GameMode;
+  settings: SessionSettings | null;
+  words: string[];
+  keystrokes: number;
+  mistakes: number;
+  wpm: number;
+  accuracy: number;
+  keystrokeLog: Keystroke[] | null;
+  seed: string | null;
+}
+
+export interface TypingTimings {
+  letters: { [key: string]: number[] };
+  bigrams: { [key: string]: number[] };
+  trigrams: { [key: string]: number[] };
+  words: { [key: string]: number[] };
+}
+
+export interface TypingState {
+  words: string[];
+  mode: GameMode;
+  strictMode: boolean;
+  wordIndex: number;
+  currentInput: string;
+  completedInputs: string[];
+  startTime: number | null;
+  endTime: number | null;
+  log: Keystroke[];
+  performanceData: PerformancePoint[];
+  isComplete: boolean;
+}
+
+export interface KeystrokeAnalysis {
+  timings: TypingTimings;
+  wordMistypes: { [key: string]: number };
+  letterMistakes: { [key: string]: number };
+  letterConfusions: LetterMistake[];
+  keystrokes: number;
+  mistakes: number;
+}
+
+export interface ReplayFrame {
+  wordIndex: number;
+  currentInput: string;
+  completedInputs: string[];
+}
+
+export interface ReplayMark {
+  type: 'hesitation' | 'mistype' | 'correction';
+  key: string;
+  time: number;
+  wordIndex: number;
+  charIndex: number;
+  pause: number;
+}
+
+export interface CaretPosition {
+  wordIndex: number;
+  caret: number;
+}
+
+export interface TargetedPatterns {
+  letters: string[];
+  bigrams: string[];
+  trigrams: string[];
+  words: string[];
+  finger: Finger | null;
+}
+
+export interface GhostWordDelta {
+  wordIndex: number;
+  word: string;
+  time: number;
+  ghostTime: number;
+  delta: number;
+  totalDelta: number;
+}
+
+export type TypingEvent =
+  | { type: 'keydown'; key: string; code: string; modifiers: Modifier[]; time: number }
+  | { type: 'tick'; time: number }
+  | { type: 'addWords'; words: string[] }
+  | { type: 'setStrictMode'; strictMode: boolean };
+
+export interface DailyPerformance {
+  day: string;
+  date: number;
+  wpm: number;
+  accuracy: number;
+  games: number;
+}
+
+export interface TimingStats {
+  count: number;
+  mean: number;
+  m2: number;
+  recent: number[];
 }
 
 export interface TimingHistory {
   letters: { [key: string]: number };
   bigrams: { [key: string]: number };
+  trigrams: { [key: string]: number };
   words: { [key: string]: number };
-  historicalLetters: { [key: string]: number[] };
-  historicalBigrams: { [key: string]: number[] };
-  historicalWords: { [key: string]: number[] };
-  historicalPerformance: GamePerformance[];
+  historicalLetters: { [key: string]: TimingStats };
+  historicalBigrams: { [key: string]: TimingStats };
+  historicalTrigrams: { [key: string]: TimingStats };
+  historicalWords: { [key: string]: TimingStats };
+  historicalPerformance: GameSession[];
   wordMistypes: { [key: string]: number };
+  letterConfusions: LetterMistake[];
 } 
 
 export interface UserPreferences {
   strictMode: boolean;
   hideTargets: boolean;
-  selectedTab: 'letters' | 'bigrams' | 'words';
+  selectedTab: ResultsTab;
   showingOverall: boolean;
-}
\ No newline at end of file
+  gameMode: GameMode;
+  ghost: GhostSetting;
+  keyboardLayout: string;
+  textModes: TextModes;
+}
+
+export interface Challenge {
+  seed: string;
+  mode: GameMode;
+  textModes: TextModes;
+}
+
+export type ResultsTab = 'letters' | 'bigrams' | 'trigrams' | 'words' | 'confusions' | 'fingers';
+
+export type GhostSetting = 'off' | 'best' | 'recent';
+
+export type BuiltInTheme = 'light' | 'dark' | 'high-contrast' | 'color-blind';
+
+export type ThemeSetting = BuiltInTheme | 'system' | `custom:${string}`;
+
+export type ThemeTokens = { [token: string]: string };
+
+export interface CustomTheme {
+  id: string;
+  name: string;
+  tokens: ThemeTokens;
+}
+
+export interface Profile {
+  id: string;
+  name: string;
+  createdAt: number;
+  timingHistory: TimingHistory;
+  preferences: UserPreferences;
+  theme: ThemeSetting;
+  // Progress on the layouts not in use, by layout id; the layout in use keeps its progress in timingHistory
+  layoutHistories: { [layoutId: string]: TimingHistory };
+}
+
+export interface StoredData {
+  version: number;
+  activeProfileId: string;
+  profiles: Profile[];
+  customThemes: CustomTheme[];
+  customLayouts: KeyboardLayout[];
+}
+
+export interface StorageLoadResult {
+  data: StoredData;
+  notice: string | null;
+}
+
+export interface ExportedData {
+  format: string;
+  version: number;
+  exportedAt: string;
+  timingHistory: TimingHistory;
+  preferences: UserPreferences;
+  theme: ThemeSetting;
+}
+
+export type ImportMode = 'replace' | 'merge';
+
+export interface ExportedThemes {
+  format: string;
+  version: number;
+  exportedAt: string;
+  themes: { name: string; tokens: ThemeTokens }[];
+}
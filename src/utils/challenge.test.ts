@@ -0,0 +1,76 @@
+import { createChallengeUrl, readChallenge, removeChallengeParams, parseModeParam, parseTextModesParam, generateChallengeWords } from './challenge';
+import { createSeededRandom } from './random';
+import { generateSeededWords, generateWeightedWords } from './utils';
+import { createEmptyTimingHistory } from './storage';
+import { DEFAULT_TEXT_MODES } from './textModes';
+
+describe('seeded word lists', () => {
+  it('repeats the same random sequence for the same seed', () => {
+    const first = createSeededRandom('abc');
+    const second = createSeededRandom('abc');
+    const other = createSeededRandom('abd');
+    const sequence = [first(), first(), first()];
+
+    expect([second(), second(), second()]).toEqual(sequence);
+    expect(other()).not.toBe(sequence[0]);
+    sequence.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('generates the same words for the same seed', () => {
+    const words = generateSeededWords(25, 'team-1');
+
+    expect(generateSeededWords(25, 'team-1')).toEqual(words);
+    expect(generateSeededWords(25, 'team-2')).not.toEqual(words);
+    expect(new Set(words).size).toBe(25);
+    expect(generateSeededWords(10, 'team-1:25', words).some(word => words.includes(word))).toBe(false);
+  });
+
+  it('generates the same weighted words for the same history and seed', () => {
+    const history = createEmptyTimingHistory();
+
+    expect(generateWeightedWords(10, history, [], createSeededRandom('x')))
+      .toEqual(generateWeightedWords(10, history, [], createSeededRandom('x')));
+  });
+});
+
+describe('challenge links', () => {
+  it('round-trips the seed and mode through a URL', () => {
+    const url = createChallengeUrl({ seed: 'k3x9q2ab', mode: { type: 'time', length: 30 }, textModes: DEFAULT_TEXT_MODES }, 'https://example.com/?theme=dark');
+
+    expect(url).toBe('https://example.com/?theme=dark&seed=k3x9q2ab&mode=time-30');
+    expect(readChallenge(new URL(url).search)).toEqual({ seed: 'k3x9q2ab', mode: { type: 'time', length: 30 }, textModes: DEFAULT_TEXT_MODES });
+    expect(removeChallengeParams(url)).toBe('https://example.com/?theme=dark');
+  });
+
+  it('round-trips the text modes through a URL', () => {
+    const textModes = { capitalization: 'sentence' as const, punctuation: true, numbers: false, symbols: true };
+    const url = createChallengeUrl({ seed: 'abc', mode: { type: 'words', length: 25 }, textModes }, 'https://example.com/');
+
+    expect(url).toBe('https://example.com/?seed=abc&mode=words-25&text=sentence%2Cpunctuation%2Csymbols');
+    expect(readChallenge(new URL(url).search)?.textModes).toEqual(textModes);
+    expect(removeChallengeParams(url)).toBe('https://example.com/');
+    expect(parseTextModesParam('sentence,random')).toBeNull();
+    expect(readChallenge('?seed=abc&mode=words-25&text=emoji')).toBeNull();
+  });
+
+  it('generates the same text for the same seed and text modes', () => {
+    const textModes = { capitalization: 'random' as const, punctuation: true, numbers: true, symbols: false };
+    const words = generateChallengeWords(25, 'team-1', textModes);
+
+    expect(generateChallengeWords(25, 'team-1', textModes)).toEqual(words);
+    expect(generateChallengeWords(25, 'team-1', DEFAULT_TEXT_MODES)).toEqual(generateSeededWords(25, 'team-1'));
+    expect(generateChallengeWords(10, 'team-1', { ...textModes, symbols: true }))
+      .toEqual(generateChallengeWords(10, 'team-1', { ...textModes, symbols: true }));
+  });
+
+  it('ignores links with invalid seeds or modes', () => {
+    expect(readChallenge('?seed=abc')).toBeNull();
+    expect(readChallenge('?seed=a%20b&mode=words-25')).toBeNull();
+    expect(parseModeParam('words-0')).toBeNull();
+    expect(parseModeParam('time-45')).toBeNull();
+    expect(parseModeParam('words-50')).toEqual({ type: 'words', length: 50 });
+  });
+});
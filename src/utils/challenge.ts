@@ -0,0 +1,139 @@
+import { Challenge, GameMode, TextModes } from '../types/types';
+import { MAX_CUSTOM_WORDS, TIMED_MODE_LENGTHS, generateSeededWords } from './utils';
+import { DEFAULT_TEXT_MODES, applyTextModes, endsSentence } from './textModes';
+import { createSeededRandom } from './random';
+import { createEmptyTimingHistory } from './storage';
+
+export const SEED_PARAM = 'seed';
+export const MODE_PARAM = 'mode';
+export const TEXT_PARAM = 'text';
+
+// Seeds from links are limited to characters that survive being pasted into chat
+const SEED_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+// ===============================
+// Challenge Link Functions
+// ===============================
+
+/**
+ * Formats a game mode for a challenge link
+ * @param mode - Game mode
+ * @returns Mode such as "words-25" or "time-30"
+ */
+export const formatModeParam = (mode: GameMode): string => `${mode.type}-${mode.length}`;
+
+/**
+ * Parses a game mode from a challenge link
+ * @param value - Mode such as "words-25" or "time-30"
+ * @returns The game mode, or null if the value is not a mode the game can play
+ */
+export const parseModeParam = (value: string | null): GameMode | null => {
+  const match = value?.match(/^(words|time)-(\d+)$/);
+  if (!match) return null;
+
+  const length = Number(match[2]);
+  if (match[1] === 'words') {
+    return length >= 1 && length <= MAX_CUSTOM_WORDS ? { type: 'words', length } : null;
+  }
+  return TIMED_MODE_LENGTHS.includes(length) ? { type: 'time', length } : null;
+};
+
+/**
+ * Formats text modes for a challenge link
+ * @param textModes - Text modes of the challenge
+ * @returns The modes turned on, such as "sentence,punctuation", or an empty string for plain words
+ */
+export const formatTextModesParam = (textModes: TextModes): string => {
+  return [
+    textModes.capitalization !== 'off' ? textModes.capitalization : null,
+    textModes.punctuation ? 'punctuation' : null,
+    textModes.numbers ? 'numbers' : null,
+    textModes.symbols ? 'symbols' : null
+  ].filter(Boolean).join(',');
+};
+
+/**
+ * Parses text modes from a challenge link; links made before text modes were shared have none
+ * @param value - Modes turned on, such as "sentence,punctuation"
+ * @returns The text modes, or null if the value names a mode the game does not have
+ */
+export const parseTextModesParam = (value: string | null): TextModes | null => {
+  if (!value) return DEFAULT_TEXT_MODES;
+
+  const names = value.split(',');
+  const capitalizations = names.filter(name => name === 'sentence' || name === 'random');
+  if (capitalizations.length > 1 || names.some(name => !['sentence', 'random', 'punctuation', 'numbers', 'symbols'].includes(name))) {
+    return null;
+  }
+  return {
+    capitalization: capitalizations.length > 0 ? capitalizations[0] as TextModes['capitalization'] : 'off',
+    punctuation: names.includes('punctuation'),
+    numbers: names.includes('numbers'),
+    symbols: names.includes('symbols')
+  };
+};
+
+/**
+ * Reads the challenge a page was opened with
+ * @param search - Query string of the page URL
+ * @returns The seed, mode and text modes of the challenge, or null if the URL has no valid challenge
+ */
+export const readChallenge = (search: string): Challenge | null => {
+  const params = new URLSearchParams(search);
+  const seed = params.get(SEED_PARAM);
+  const mode = parseModeParam(params.get(MODE_PARAM));
+  const textModes = parseTextModesParam(params.get(TEXT_PARAM));
+  return seed && SEED_PATTERN.test(seed) && mode && textModes ? { seed, mode, textModes } : null;
+};
+
+/**
+ * Builds a link that opens the same challenge
+ * @param challenge - Seed, mode and text modes of the challenge
+ * @param href - URL of the page to link to
+ * @returns The page URL with the seed, mode and, unless the words are plain, text parameters set
+ */
+export const createChallengeUrl = (challenge: Challenge, href: string): string => {
+  const url = new URL(href);
+  const text = formatTextModesParam(challenge.textModes);
+  url.searchParams.set(SEED_PARAM, challenge.seed);
+  url.searchParams.set(MODE_PARAM, formatModeParam(challenge.mode));
+  if (text) {
+    url.searchParams.set(TEXT_PARAM, text);
+  } else {
+    url.searchParams.delete(TEXT_PARAM);
+  }
+  return url.toString();
+};
+
+/**
+ * Removes the challenge parameters from a URL
+ * @param href - URL of the page
+ * @returns The URL without the seed, mode and text parameters
+ */
+export const removeChallengeParams = (href: string): string => {
+  const url = new URL(href);
+  url.searchParams.delete(SEED_PARAM);
+  url.searchParams.delete(MODE_PARAM);
+  url.searchParams.delete(TEXT_PARAM);
+  return url.toString();
+};
+
+/**
+ * Generates the text of a challenge from its seed and text modes alone. Typing history is not used,
+ * so weak characters are not favored and everyone with the same link gets the same text.
+ * @param count - Number of words to generate
+ * @param seed - Seed of the words; timed games add more words with the number already used appended
+ * @param textModes - Text modes of the challenge
+ * @param exclude - Words already in use, the last of which the new words continue from
+ * @returns Array of words with the text modes applied, always the same for the same arguments
+ */
+export const generateChallengeWords = (count: number, seed: string, textModes: TextModes, exclude: string[] = []): string[] => {
+  const lastWord = exclude[exclude.length - 1];
+  return applyTextModes(
+    generateSeededWords(count, seed, exclude),
+    textModes,
+    createEmptyTimingHistory(),
+    createSeededRandom(`${seed}:text`),
+    !lastWord || endsSentence(lastWord)
+  );
+};
@@ -0,0 +1,55 @@
+// Minimum contrast ratio for normal-sized text from WCAG 2.1 level AA
+export const WCAG_AA_NORMAL_TEXT = 4.5;
+
+// ===============================
+// Color Functions
+// ===============================
+
+/**
+ * Checks whether a value is a six-digit hex color such as #1a202c
+ * @param value - Value to check
+ * @returns True if the value is a hex color
+ */
+export const isHexColor = (value: any): value is string => {
+  return typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+};
+
+/**
+ * Parses a six-digit hex color into its red, green and blue channels
+ * @param hex - Hex color such as #1a202c
+ * @returns Channels from 0 to 255, or null if the value is not a hex color
+ */
+export const parseHexColor = (hex: string): [number, number, number] | null => {
+  if (!isHexColor(hex)) return null;
+  return [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+};
+
+/**
+ * Calculates the relative luminance of a color as defined by WCAG
+ * @param hex - Hex color
+ * @returns Luminance from 0 (black) to 1 (white), or null if the value is not a hex color
+ */
+export const getRelativeLuminance = (hex: string): number | null => {
+  const channels = parseHexColor(hex);
+  if (!channels) return null;
+
+  const [r, g, b] = channels.map(channel => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+/**
+ * Calculates the WCAG contrast ratio between two colors
+ * @param foreground - Hex color of the text
+ * @param background - Hex color behind the text
+ * @returns Ratio from 1 to 21, or null if either value is not a hex color
+ */
+export const getContrastRatio = (foreground: string, background: string): number | null => {
+  const a = getRelativeLuminance(foreground);
+  const b = getRelativeLuminance(background);
+  if (a === null || b === null) return null;
+
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+};
@@ -0,0 +1,39 @@
+import { addLetterConfusions, getMistakesByLetter, getConfusionMatrix, getCommonSwaps } from './confusions';
+
+describe('letter confusions', () => {
+  const confusions = [
+    { expected: 'e', typed: 'r', count: 3 },
+    { expected: 'a', typed: 's', count: 1 },
+    { expected: 'e', typed: 'w', count: 2 }
+  ];
+
+  it('sums the counts of matching pairs, most frequent first', () => {
+    const combined = addLetterConfusions(confusions, [{ expected: 'a', typed: 's', count: 4 }, { expected: 'i', typed: 'o', count: 1 }]);
+
+    expect(combined).toEqual([
+      { expected: 'a', typed: 's', count: 5 },
+      { expected: 'e', typed: 'r', count: 3 },
+      { expected: 'e', typed: 'w', count: 2 },
+      { expected: 'i', typed: 'o', count: 1 }
+    ]);
+    expect(confusions[1].count).toBe(1);
+  });
+
+  it('totals the mistakes made on each expected letter', () => {
+    expect(getMistakesByLetter(confusions)).toEqual({ e: 5, a: 1 });
+  });
+
+  it('lays out confusions as a matrix of expected against typed letters', () => {
+    expect(getConfusionMatrix(confusions)).toEqual({
+      expected: ['a', 'e'],
+      typed: ['r', 's', 'w'],
+      counts: { e: { r: 3, w: 2 }, a: { s: 1 } },
+      maxCount: 3
+    });
+  });
+
+  it('calls out only swaps made more than once', () => {
+    expect(getCommonSwaps(confusions)).toEqual([confusions[0], confusions[2]]);
+    expect(getCommonSwaps(confusions, 1)).toEqual([confusions[0]]);
+  });
+});
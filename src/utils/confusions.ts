@@ -0,0 +1,74 @@
+import { LetterMistake } from '../types/types';
+
+// Number of common swaps called out in the results and favored in word selection
+export const COMMON_SWAP_LIMIT = 5;
+
+// A swap has to happen this many times before it is called out, so one-off slips are not drilled
+const COMMON_SWAP_MIN_COUNT = 2;
+
+// ===============================
+// Letter Confusion Functions
+// ===============================
+
+/**
+ * Adds substitution counts to a list of letter confusions
+ * @param confusions - Existing expected→typed counts
+ * @param added - Counts to add, e.g. from the game just played or an imported history
+ * @returns New list with the counts of matching pairs summed, most frequent first
+ */
+export const addLetterConfusions = (confusions: LetterMistake[], added: LetterMistake[]): LetterMistake[] => {
+  const combined = confusions.map(confusion => ({ ...confusion }));
+  added.forEach(({ expected, typed, count }) => {
+    const existing = combined.find(confusion => confusion.expected === expected && confusion.typed === typed);
+    if (existing) {
+      existing.count += count;
+    } else {
+      combined.push({ expected, typed, count });
+    }
+  });
+  return combined.sort((a, b) => b.count - a.count);
+};
+
+/**
+ * Totals the mistakes made on each expected letter
+ * @param confusions - Expected→typed counts
+ * @returns Number of times each letter was mistyped, keyed by the expected letter
+ */
+export const getMistakesByLetter = (confusions: LetterMistake[]): { [letter: string]: number } => {
+  const mistakes: { [letter: string]: number } = {};
+  confusions.forEach(({ expected, count }) => {
+    mistakes[expected] = (mistakes[expected] || 0) + count;
+  });
+  return mistakes;
+};
+
+/**
+ * Lays out letter confusions as a matrix of expected letters against typed letters
+ * @param confusions - Expected→typed counts
+ * @returns Sorted row (expected) and column (typed) letters, the count for each pair keyed by
+ * expected then typed letter, and the highest count for scaling a heatmap
+ */
+export const getConfusionMatrix = (confusions: LetterMistake[]) => {
+  const expected = Array.from(new Set(confusions.map(confusion => confusion.expected))).sort();
+  const typed = Array.from(new Set(confusions.map(confusion => confusion.typed))).sort();
+  const counts: { [expected: string]: { [typed: string]: number } } = {};
+  confusions.forEach(confusion => {
+    counts[confusion.expected] = { ...counts[confusion.expected], [confusion.typed]: confusion.count };
+  });
+  const maxCount = Math.max(0, ...confusions.map(confusion => confusion.count));
+
+  return { expected, typed, counts, maxCount };
+};
+
+/**
+ * Finds the substitutions made most often, which are worth drilling
+ * @param confusions - Expected→typed counts
+ * @param limit - Maximum number of swaps to return
+ * @returns Swaps that happened more than once, most frequent first
+ */
+export const getCommonSwaps = (confusions: LetterMistake[], limit = COMMON_SWAP_LIMIT): LetterMistake[] => {
+  return confusions
+    .filter(confusion => confusion.count >= COMMON_SWAP_MIN_COUNT)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
+};
@@ -0,0 +1,138 @@
+import { CustomTheme, ThemeTokens, ExportedThemes } from '../types/types';
+import { themes, THEME_TOKENS, isColorToken } from './theme';
+import { isHexColor, getContrastRatio, WCAG_AA_NORMAL_TEXT } from './color';
+
+export const THEME_EXPORT_FORMAT = 'type-refiner-themes';
+export const THEME_EXPORT_VERSION = 1;
+
+// Text tokens and the backgrounds they are drawn on
+const CONTRAST_CHECKS: { foreground: string; background: string }[] = [
+  { foreground: '--text', background: '--background' },
+  { foreground: '--text', background: '--surface' },
+  { foreground: '--text-light', background: '--background' },
+  { foreground: '--text-light', background: '--surface' }
+];
+
+export interface ContrastWarning {
+  foreground: string;
+  background: string;
+  ratio: number;
+}
+
+// ===============================
+// Custom Theme Functions
+// ===============================
+
+/**
+ * Creates a new custom theme
+ * @param name - Display name of the theme
+ * @param tokens - Value of every theme token
+ * @returns The new theme with a unique id
+ */
+export const createCustomTheme = (name: string, tokens: ThemeTokens): CustomTheme => ({
+  id: `theme-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  tokens: { ...tokens }
+});
+
+/**
+ * Makes a theme name unique by numbering it if another theme already uses it
+ * @param name - Preferred name
+ * @param customThemes - Existing custom themes
+ * @returns The name, or the name followed by the first free number such as "Ocean (2)"
+ */
+export const getUniqueThemeName = (name: string, customThemes: CustomTheme[]): string => {
+  const taken = new Set(customThemes.map(theme => theme.name.toLowerCase()));
+  if (!taken.has(name.toLowerCase())) return name;
+
+  let number = 2;
+  while (taken.has(`${name} (${number})`.toLowerCase())) {
+    number++;
+  }
+  return `${name} (${number})`;
+};
+
+/**
+ * Finds text and background token pairs whose contrast is below WCAG AA for normal text
+ * @param tokens - Value of every theme token
+ * @returns Array of failing pairs with their contrast ratio, empty when all pass
+ */
+export const getContrastWarnings = (tokens: ThemeTokens): ContrastWarning[] => {
+  const warnings: ContrastWarning[] = [];
+
+  CONTRAST_CHECKS.forEach(({ foreground, background }) => {
+    const ratio = getContrastRatio(tokens[foreground], tokens[background]);
+    if (ratio !== null && ratio < WCAG_AA_NORMAL_TEXT) {
+      warnings.push({ foreground, background, ratio: Math.round(ratio * 100) / 100 });
+    }
+  });
+
+  return warnings;
+};
+
+// ===============================
+// Theme Export Functions
+// ===============================
+
+/**
+ * Serializes custom themes for sharing or backup
+ * @param customThemes - Themes to export
+ * @returns JSON theme file content
+ */
+export const createThemeExport = (customThemes: CustomTheme[]): string => {
+  const data: ExportedThemes = {
+    format: THEME_EXPORT_FORMAT,
+    version: THEME_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    themes: customThemes.map(({ name, tokens }) => ({ name, tokens }))
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+/**
+ * Builds a full token set from imported tokens, ignoring unknown tokens and filling missing ones from the light theme
+ */
+const sanitizeThemeTokens = (tokens: any, name: string): ThemeTokens => {
+  if (typeof tokens !== 'object' || tokens === null || Array.isArray(tokens)) {
+    throw new Error(`Theme "${name}" has no tokens`);
+  }
+
+  const sanitized: ThemeTokens = { ...themes.light };
+  THEME_TOKENS.forEach(token => {
+    const value = tokens[token];
+    if (value === undefined) return;
+    if (typeof value !== 'string' || (isColorToken(token) && !isHexColor(value))) {
+      throw new Error(`Theme "${name}" has an invalid value for ${token}`);
+    }
+    sanitized[token] = value;
+  });
+  return sanitized;
+};
+
+/**
+ * Parses and validates a theme file
+ * @param raw - JSON theme file content
+ * @returns The themes in the file, with names and complete token sets
+ */
+export const parseThemeExport = (raw: string): { name: string; tokens: ThemeTokens }[] => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (parsed?.format !== THEME_EXPORT_FORMAT) {
+    throw new Error('The file is not a Type Refiner theme file');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > THEME_EXPORT_VERSION) {
+    throw new Error('The file was made by a newer version of Type Refiner');
+  }
+  if (!Array.isArray(parsed.themes) || parsed.themes.length === 0) {
+    throw new Error('The file contains no themes');
+  }
+
+  return parsed.themes.map((theme: any, index: number) => {
+    const name = typeof theme?.name === 'string' && theme.name.trim() ? theme.name.trim() : `Imported theme ${index + 1}`;
+    return { name, tokens: sanitizeThemeTokens(theme?.tokens, name) };
+  });
+};
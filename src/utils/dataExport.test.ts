@@ -0,0 +1,124 @@
+import { GameSession, TimingHistory } from '../types/types';
+import { combineTimingHistory, escapeCsvValue, toCsv, createLetterConfusionsCsv, createSessionsCsv, createExportData, parseExportData } from './dataExport';
+import { createEmptyTimingHistory, DEFAULT_PREFERENCES, SCHEMA_VERSION } from './storage';
+import { compactTimingSamples } from './timingStats';
+
+const createSession = (startedAt: number, wpm: number): GameSession => ({
+  id: String(startedAt),
+  startedAt,
+  endedAt: startedAt + 10000,
+  duration: 10000,
+  mode: { type: 'words', length: 2 },
+  settings: null,
+  words: ['ab', 'cd'],
+  keystrokes: 5,
+  mistakes: 0,
+  wpm,
+  accuracy: 100,
+  keystrokeLog: null,
+  seed: null
+});
+
+// A history of the given games, each having typed 'a' once in the given time
+const createHistory = (sessions: GameSession[], letterTimes: number[]): TimingHistory => ({
+  ...createEmptyTimingHistory(),
+  letters: { a: letterTimes[letterTimes.length - 1] },
+  historicalLetters: { a: compactTimingSamples(letterTimes) },
+  historicalPerformance: sessions,
+  wordMistypes: { ab: sessions.length },
+  letterConfusions: [{ expected: 'a', typed: 's', count: sessions.length }]
+});
+
+describe('JSON export', () => {
+  it('imports a file exported at the current schema', () => {
+    const history = createHistory([createSession(1000, 60)], [100, 120]);
+    const preferences = { ...DEFAULT_PREFERENCES, keyboardLayout: 'dvorak' };
+    const exported = parseExportData(createExportData(history, preferences, 'dark'));
+
+    expect(exported.version).toBe(SCHEMA_VERSION);
+    expect(exported.timingHistory).toEqual(history);
+    expect(exported.preferences).toEqual(preferences);
+    expect(exported.theme).toBe('dark');
+  });
+
+  it('rejects files that are not Type Refiner exports', () => {
+    expect(() => parseExportData('not json')).toThrow('not valid JSON');
+    expect(() => parseExportData('{"format": "other"}')).toThrow('not a Type Refiner export');
+  });
+});
+
+describe('combining imported typing data', () => {
+  const current = createHistory([createSession(1000, 60)], [100]);
+  const imported = createHistory([createSession(2000, 70), createSession(3000, 80)], [120, 140]);
+
+  it('replaces the current data', () => {
+    expect(combineTimingHistory(current, imported, 'replace')).toBe(imported);
+  });
+
+  it('adds the sessions and aggregates of separate histories', () => {
+    const merged = combineTimingHistory(current, imported, 'merge');
+
+    expect(merged.historicalPerformance.map(session => session.id)).toEqual(['1000', '2000', '3000']);
+    expect(merged.historicalLetters.a.count).toBe(3);
+    expect(merged.historicalLetters.a.mean).toBeCloseTo(120);
+    expect(merged.letters).toEqual({ a: 100 });
+    expect(merged.wordMistypes).toEqual({ ab: 3 });
+    expect(merged.letterConfusions).toEqual([{ expected: 'a', typed: 's', count: 3 }]);
+  });
+
+  it('gives the same result merging the same data twice as once', () => {
+    const once = combineTimingHistory(current, imported, 'merge');
+
+    expect(combineTimingHistory(once, imported, 'merge')).toEqual(once);
+    expect(combineTimingHistory(once, once, 'merge')).toEqual(once);
+  });
+
+  it('takes the aggregates of a backup that already holds every current game', () => {
+    const backup = createHistory([...current.historicalPerformance, createSession(2000, 70)], [100, 120]);
+    const merged = combineTimingHistory(current, backup, 'merge');
+
+    expect(merged.historicalPerformance).toHaveLength(2);
+    expect(merged.historicalLetters).toEqual(backup.historicalLetters);
+    expect(merged.wordMistypes).toEqual({ ab: 2 });
+    expect(merged.letterConfusions).toEqual(backup.letterConfusions);
+  });
+});
+
+describe('CSV export', () => {
+  it('quotes cells containing separators, quotes, line breaks or edge spaces', () => {
+    expect(escapeCsvValue('plain')).toBe('plain');
+    expect(escapeCsvValue(',')).toBe('","');
+    expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsvValue('two\nlines')).toBe('"two\nlines"');
+    expect(escapeCsvValue(' ')).toBe('" "');
+    expect(escapeCsvValue(null)).toBe('');
+    expect(escapeCsvValue(-12.5)).toBe('-12.5');
+    expect(escapeCsvValue(true)).toBe('true');
+  });
+
+  it('guards only free text against being read as a formula', () => {
+    expect(escapeCsvValue('=')).toBe('=');
+    expect(escapeCsvValue('-')).toBe('-');
+    expect(escapeCsvValue('=SUM(A1)', true)).toBe("'=SUM(A1)");
+    expect(escapeCsvValue('+1, +2', true)).toBe(`"'+1, +2"`);
+  });
+
+  it('builds rows in header order with CRLF line endings', () => {
+    expect(toCsv(['key', 'text'], [['=', '=cmd'], ['+', 'ok']], ['text'])).toBe("key,text\r\n=,'=cmd\r\n+,ok\r\n");
+    expect(createLetterConfusionsCsv([{ expected: '-', typed: '=', count: 2 }])).toBe('expected,typed,count\r\n-,=,2\r\n');
+  });
+
+  it('keeps the session columns in their original order with later ones at the end', () => {
+    const [header, row] = createSessionsCsv([{ ...createSession(0, 60), words: ['-5', 'ab'] }]).split('\r\n');
+
+    expect(header).toBe('id,started_at,ended_at,duration_ms,mode,length,strict_mode,hide_targets,' +
+      'word_count,words,keystrokes,mistakes,wpm,accuracy,seed,capitalization,punctuation,numbers,symbols');
+    expect(row.split(',').slice(8, 10)).toEqual(['2', "'-5 ab"]);
+  });
+
+  it('guards challenge seeds that a spreadsheet would read as a formula', () => {
+    const [, row] = createSessionsCsv([{ ...createSession(0, 60), seed: '-cmd' }]).split('\r\n');
+
+    expect(row.split(',')[14]).toBe("'-cmd");
+  });
+});
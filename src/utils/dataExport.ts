@@ -0,0 +1,373 @@
+import { TimingHistory, TimingStats, GameSession, UserPreferences, ExportedData, ImportMode, LetterTiming, LetterMistake, BigramTiming, NgramTiming, ThemeSetting, FingerStat, HandStat, BigramClassStat } from '../types/types';
+import { SCHEMA_VERSION, parseStoredData, sanitizePreferences } from './storage';
+import { mergeTimingStats } from './timingStats';
+import { pruneKeystrokeLogs } from './keystrokeLog';
+import { addLetterConfusions } from './confusions';
+
+export const EXPORT_FORMAT = 'type-refiner-export';
+
+// ===============================
+// File Functions
+// ===============================
+
+/**
+ * Offers text content to the user as a file download
+ * @param filename - Suggested file name
+ * @param content - File content
+ * @param mimeType - MIME type of the content
+ */
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Builds a file name stamped with the current date
+ * @param name - Base name of the file
+ * @param extension - File extension without the dot
+ * @returns File name such as type-refiner-data-2025-01-31.json
+ */
+export const getDatedFilename = (name: string, extension: string): string => {
+  return `type-refiner-${name}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+};
+
+// ===============================
+// JSON Export Functions
+// ===============================
+
+/**
+ * Serializes a profile's typing data, preferences and theme for backup or transfer to another browser
+ * @param timingHistory - Historical timing data
+ * @param preferences - User preferences
+ * @param theme - Theme setting
+ * @returns JSON export file content
+ */
+export const createExportData = (timingHistory: TimingHistory, preferences: UserPreferences, theme: ThemeSetting): string => {
+  const data: ExportedData = {
+    format: EXPORT_FORMAT,
+    version: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    timingHistory,
+    preferences,
+    theme
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+/**
+ * Parses and validates an export file, upgrading data exported by older versions
+ * @param raw - JSON export file content
+ * @returns The exported data at the current schema version
+ */
+export const parseExportData = (raw: string): ExportedData => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (parsed?.format !== EXPORT_FORMAT) {
+    throw new Error('The file is not a Type Refiner export');
+  }
+  if (typeof parsed.version !== 'number') {
+    throw new Error('The file has no schema version');
+  }
+
+  // Exports carry the storage schema version, so they are wrapped in the stored shape of that version
+  // and go through the same migrations and validation as saved data
+  const stored = parsed.version < 3
+    ? { version: parsed.version, timingHistory: parsed.timingHistory }
+    : {
+      version: parsed.version,
+      activeProfileId: 'import',
+      // An export holds the progress on one layout only, so the profile has none on other layouts
+      profiles: [{ id: 'import', name: 'Import', timingHistory: parsed.timingHistory, preferences: parsed.preferences, theme: parsed.theme, layoutHistories: {} }]
+    };
+
+  let profile;
+  try {
+    profile = parseStoredData(JSON.stringify(stored)).profiles[0];
+  } catch (error) {
+    throw new Error(`The file contains invalid data: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return {
+    format: EXPORT_FORMAT,
+    version: SCHEMA_VERSION,
+    exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : '',
+    timingHistory: profile.timingHistory,
+    preferences: parsed.version < 3 ? sanitizePreferences(parsed.preferences) : profile.preferences,
+    theme: profile.theme
+  };
+};
+
+// ===============================
+// Merge Functions
+// ===============================
+
+/**
+ * Merges two maps of running timing statistics key by key
+ */
+const mergeTimingMaps = (
+  a: { [key: string]: TimingStats },
+  b: { [key: string]: TimingStats }
+): { [key: string]: TimingStats } => {
+  const merged = { ...a };
+  Object.entries(b).forEach(([key, stats]) => {
+    merged[key] = mergeTimingStats(merged[key], stats);
+  });
+  return merged;
+};
+
+/**
+ * Checks whether two session records are the same game
+ */
+const isSameSession = (a: GameSession, b: GameSession): boolean => {
+  return a.id === b.id && a.startedAt === b.startedAt && a.wpm === b.wpm && a.accuracy === b.accuracy;
+};
+
+/**
+ * Checks whether a set of sessions holds every one of some other sessions, of which there is at least one
+ */
+const includesAllSessions = (sessions: GameSession[], others: GameSession[]): boolean => {
+  return others.length > 0 && others.every(other => sessions.some(session => isSameSession(session, other)));
+};
+
+/**
+ * Merges two sets of sessions, dropping sessions present in both and ordering dated sessions by start time
+ */
+const mergeSessions = (a: GameSession[], b: GameSession[]): GameSession[] => {
+  const merged = [...a];
+
+  b.forEach(session => {
+    const existing = merged.find(s => s.id === session.id);
+    if (!existing) {
+      merged.push(session);
+    } else if (!isSameSession(existing, session)) {
+      // Same id from a different browser, such as two migrated legacy games
+      merged.push({ ...session, id: `${session.id}-imported-${merged.length}` });
+    }
+  });
+
+  // Undated legacy sessions keep their relative order ahead of dated ones
+  return merged
+    .map((session, index) => ({ session, index }))
+    .sort((x, y) => {
+      const a = x.session.startedAt;
+      const b = y.session.startedAt;
+      if (a === null || b === null) {
+        return a === b ? x.index - y.index : a === null ? -1 : 1;
+      }
+      return a - b || x.index - y.index;
+    })
+    .map(({ session }) => session);
+};
+
+/**
+ * Combines imported typing data with the current data
+ * @param current - Timing history currently in use
+ * @param imported - Timing history from an export file
+ * @param mode - Replace the current data, or merge the two histories
+ * @returns The timing history to use after the import
+ */
+export const combineTimingHistory = (current: TimingHistory, imported: TimingHistory, mode: ImportMode): TimingHistory => {
+  if (mode === 'replace') {
+    return imported;
+  }
+
+  // Aggregates cannot be split by session, so when one history already holds every game of the other,
+  // its aggregates already count the other's and are kept as they are rather than added again
+  const historicalPerformance = pruneKeystrokeLogs(mergeSessions(current.historicalPerformance, imported.historicalPerformance));
+  if (includesAllSessions(current.historicalPerformance, imported.historicalPerformance)) {
+    return { ...current, historicalPerformance };
+  }
+  if (includesAllSessions(imported.historicalPerformance, current.historicalPerformance)) {
+    return {
+      ...imported,
+      letters: { ...imported.letters, ...current.letters },
+      bigrams: { ...imported.bigrams, ...current.bigrams },
+      trigrams: { ...imported.trigrams, ...current.trigrams },
+      words: { ...imported.words, ...current.words },
+      historicalPerformance
+    };
+  }
+
+  const wordMistypes = { ...current.wordMistypes };
+  Object.entries(imported.wordMistypes).forEach(([word, count]) => {
+    wordMistypes[word] = (wordMistypes[word] || 0) + count;
+  });
+
+  return {
+    // Latest-game averages come from the current data where both have them
+    letters: { ...imported.letters, ...current.letters },
+    bigrams: { ...imported.bigrams, ...current.bigrams },
+    trigrams: { ...imported.trigrams, ...current.trigrams },
+    words: { ...imported.words, ...current.words },
+    historicalLetters: mergeTimingMaps(current.historicalLetters, imported.historicalLetters),
+    historicalBigrams: mergeTimingMaps(current.historicalBigrams, imported.historicalBigrams),
+    historicalTrigrams: mergeTimingMaps(current.historicalTrigrams, imported.historicalTrigrams),
+    historicalWords: mergeTimingMaps(current.historicalWords, imported.historicalWords),
+    historicalPerformance,
+    wordMistypes,
+    letterConfusions: addLetterConfusions(current.letterConfusions, imported.letterConfusions)
+  };
+};
+
+// ===============================
+// CSV Export Functions
+// ===============================
+
+/**
+ * Escapes a value for a CSV cell, quoting text containing separators, quotes or line breaks
+ * @param value - Cell value
+ * @param guardFormula - Prefix text that a spreadsheet would read as a formula with an apostrophe.
+ * Only for free text, since keys such as = and - are meant to be read as they are.
+ * @returns Escaped cell text
+ */
+export const escapeCsvValue = (value: string | number | boolean | null, guardFormula = false): string => {
+  if (value === null) return '';
+  if (typeof value !== 'string') return String(value);
+
+  const text = guardFormula && /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Builds CSV content with a header row
+ * @param headers - Column headers
+ * @param rows - Rows of cell values, in the same order as the headers
+ * @param textColumns - Headers of the free-text columns, which are guarded against being read as formulas
+ * @returns CSV content with CRLF line endings
+ */
+export const toCsv = (headers: string[], rows: (string | number | boolean | null)[][], textColumns: string[] = []): string => {
+  const guarded = headers.map(header => textColumns.includes(header));
+  return [
+    headers.map(header => escapeCsvValue(header)).join(','),
+    ...rows.map(row => row.map((value, index) => escapeCsvValue(value, guarded[index])).join(','))
+  ].join('\r\n') + '\r\n';
+};
+
+/**
+ * Builds a CSV of letter statistics
+ * @param stats - Letter statistics from calculateLetterStats or calculateOverallLetterStats
+ * @returns CSV content
+ */
+export const createLetterStatsCsv = (stats: LetterTiming[]): string => {
+  return toCsv(
+    ['letter', 'average_ms', 'occurrences'],
+    stats.map(({ letter, averageTime, occurrences }) => [letter, Math.round(averageTime), occurrences])
+  );
+};
+
+/**
+ * Builds a CSV of bigram statistics
+ * @param stats - Bigram statistics from calculateBigramStats or calculateOverallBigramStats
+ * @returns CSV content
+ */
+export const createBigramStatsCsv = (stats: BigramTiming[]): string => {
+  return toCsv(
+    ['bigram', 'average_ms', 'occurrences'],
+    stats.map(({ bigram, averageTime, occurrences }) => [bigram, Math.round(averageTime), occurrences])
+  );
+};
+
+/**
+ * Builds a CSV of trigram or longer n-gram statistics
+ * @param stats - N-gram statistics from calculateNgramStats or calculateOverallTrigramStats
+ * @returns CSV content
+ */
+export const createNgramStatsCsv = (stats: NgramTiming[]): string => {
+  return toCsv(
+    ['ngram', 'average_ms', 'occurrences'],
+    stats.map(({ ngram, averageTime, occurrences }) => [ngram, Math.round(averageTime), occurrences])
+  );
+};
+
+/**
+ * Builds a CSV of letter confusions
+ * @param confusions - Expected→typed counts from the keystroke analysis or the timing history
+ * @returns CSV content
+ */
+export const createLetterConfusionsCsv = (confusions: LetterMistake[]): string => {
+  return toCsv(
+    ['expected', 'typed', 'count'],
+    confusions.map(({ expected, typed, count }) => [expected, typed, count])
+  );
+};
+
+/**
+ * Builds a CSV of finger and hand statistics, followed by the bigram class comparison
+ * @param fingerStats - Finger statistics from calculateFingerStats
+ * @param handStats - Hand statistics from calculateHandStats
+ * @param bigramClassStats - Bigram class statistics from calculateBigramClassStats
+ * @returns CSV content
+ */
+export const createFingerStatsCsv = (fingerStats: FingerStat[], handStats: HandStat[], bigramClassStats: BigramClassStat[]): string => {
+  return toCsv(
+    ['group', 'name', 'average_ms', 'occurrences', 'mistakes', 'error_rate'],
+    [
+      ...fingerStats.map(({ finger, averageTime, occurrences, mistakes, errorRate }) =>
+        ['finger', finger, averageTime, occurrences, mistakes, Math.round(errorRate * 1000) / 1000]),
+      ...handStats.map(({ hand, averageTime, occurrences, mistakes, errorRate }) =>
+        ['hand', hand, averageTime, occurrences, mistakes, Math.round(errorRate * 1000) / 1000]),
+      ...bigramClassStats.map(({ bigramClass, averageTime, occurrences }) =>
+        ['bigram_class', bigramClass, averageTime, occurrences, null, null])
+    ]
+  );
+};
+
+/**
+ * Builds a CSV of word statistics
+ * @param stats - Word statistics from calculateWordStats or calculateOverallWordStats
+ * @returns CSV content
+ */
+export const createWordStatsCsv = (stats: { word: string; averageTime: number; occurrences: number; mistypes: number; }[]): string => {
+  return toCsv(
+    ['word', 'average_ms', 'occurrences', 'mistypes'],
+    stats.map(({ word, averageTime, occurrences, mistypes }) => [word, Math.round(averageTime), occurrences, mistypes])
+  );
+};
+
+/**
+ * Builds a CSV with one row per recorded session
+ * @param sessions - Session records from the performance history
+ * @returns CSV content
+ */
+export const createSessionsCsv = (sessions: GameSession[]): string => {
+  return toCsv(
+    [
+      'id', 'started_at', 'ended_at', 'duration_ms', 'mode', 'length', 'strict_mode', 'hide_targets',
+      'word_count', 'words', 'keystrokes', 'mistakes', 'wpm', 'accuracy', 'seed',
+      // Columns added later go at the end so existing spreadsheets and scripts keep reading the right fields
+      'capitalization', 'punctuation', 'numbers', 'symbols'
+    ],
+    sessions.map(session => [
+      session.id,
+      session.startedAt !== null ? new Date(session.startedAt).toISOString() : null,
+      session.endedAt !== null ? new Date(session.endedAt).toISOString() : null,
+      session.duration,
+      session.mode.type,
+      session.mode.length,
+      session.settings ? session.settings.strictMode : null,
+      session.settings ? session.settings.hideTargets : null,
+      session.words.length,
+      session.words.join(' '),
+      session.keystrokes,
+      session.mistakes,
+      session.wpm,
+      session.accuracy,
+      session.seed,
+      session.settings ? session.settings.textModes.capitalization : null,
+      session.settings ? session.settings.textModes.punctuation : null,
+      session.settings ? session.settings.textModes.numbers : null,
+      session.settings ? session.settings.textModes.symbols : null
+    ]),
+    ['words', 'seed']
+  );
+};
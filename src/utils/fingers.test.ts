@@ -0,0 +1,47 @@
+import { QWERTY_LAYOUT, findLayout } from './keyboardLayouts';
+import { classifyBigram, calculateFingerStats, calculateHandStats, calculateBigramClassStats, getWeakestFinger } from './fingers';
+import { createEmptyTimingHistory } from './storage';
+
+describe('finger analysis', () => {
+  it('classifies bigrams by the fingers and hands that type them', () => {
+    expect(classifyBigram(QWERTY_LAYOUT, 'ed')).toBe('same-finger');
+    expect(classifyBigram(QWERTY_LAYOUT, 'es')).toBe('same-hand');
+    expect(classifyBigram(QWERTY_LAYOUT, 'ex')).toBe('row-jump');
+    expect(classifyBigram(QWERTY_LAYOUT, 'th')).toBe('alternating');
+    expect(classifyBigram(QWERTY_LAYOUT, 'ee')).toBeNull();
+    expect(classifyBigram(findLayout('dvorak', []), 'th')).toBe('same-hand');
+  });
+
+  it('combines key timings and mistakes into finger, hand and bigram class statistics', () => {
+    const keyStats = [
+      { key: 'f', averageTime: 100, occurrences: 3, mistakes: 1, errorRate: 0.25 },
+      { key: 'g', averageTime: 200, occurrences: 1, mistakes: 0, errorRate: 0 },
+      { key: 'j', averageTime: 150, occurrences: 2, mistakes: 0, errorRate: 0 }
+    ];
+
+    expect(calculateFingerStats(keyStats, QWERTY_LAYOUT)).toEqual([
+      { finger: 'right-index', averageTime: 150, occurrences: 2, mistakes: 0, errorRate: 0 },
+      { finger: 'left-index', averageTime: 125, occurrences: 4, mistakes: 1, errorRate: 0.2 }
+    ]);
+    expect(calculateHandStats(keyStats, QWERTY_LAYOUT).map(stat => stat.averageTime)).toEqual([125, 150]);
+    expect(calculateBigramClassStats([
+      { bigram: 'fj', averageTime: 100, occurrences: 1 },
+      { bigram: 'jf', averageTime: 200, occurrences: 3 },
+      { bigram: 'ft', averageTime: 300, occurrences: 2 }
+    ], QWERTY_LAYOUT)).toEqual([
+      { bigramClass: 'same-finger', averageTime: 300, occurrences: 2 },
+      { bigramClass: 'alternating', averageTime: 175, occurrences: 4 }
+    ]);
+  });
+
+  it('targets the slowest finger only once it has enough timed letters', () => {
+    const history = createEmptyTimingHistory();
+    history.historicalLetters = {
+      a: { count: 30, mean: 300, m2: 0, recent: [] },
+      j: { count: 30, mean: 150, m2: 0, recent: [] },
+      p: { count: 5, mean: 900, m2: 0, recent: [] }
+    };
+
+    expect(getWeakestFinger(history, QWERTY_LAYOUT)).toBe('left-pinky');
+  });
+});
@@ -0,0 +1,130 @@
+import { BigramClass, BigramClassStat, BigramTiming, Finger, FingerStat, Hand, HandStat, KeyboardLayout, KeyStat, TimingHistory } from '../types/types';
+import { getKeyPosition } from './keyboardLayouts';
+
+export const FINGERS: Finger[] = [
+  'left-pinky', 'left-ring', 'left-middle', 'left-index',
+  'right-index', 'right-middle', 'right-ring', 'right-pinky'
+];
+
+export const BIGRAM_CLASSES: BigramClass[] = ['same-finger', 'row-jump', 'same-hand', 'alternating'];
+
+export const BIGRAM_CLASS_LABELS: { [bigramClass in BigramClass]: string } = {
+  'same-finger': 'Same finger',
+  'row-jump': 'Row jump',
+  'same-hand': 'Same hand',
+  alternating: 'Alternating hands'
+};
+
+// Fewest timed letters a finger needs before it can be targeted, so a few slow presses do not decide it
+const WEAK_FINGER_MIN_SAMPLES = 20;
+
+// ===============================
+// Finger Analysis Functions
+// ===============================
+
+/**
+ * Formats a finger for display
+ * @param finger - Finger id such as "left-index"
+ * @returns Readable name such as "Left index"
+ */
+export const formatFinger = (finger: Finger): string => {
+  const name = finger.replace('-', ' ');
+  return name.charAt(0).toUpperCase() + name.slice(1);
+};
+
+/**
+ * Sums the timings and mistakes of a group of keys
+ */
+const combineKeyStats = (keyStats: KeyStat[]) => {
+  const occurrences = keyStats.reduce((sum, stat) => sum + stat.occurrences, 0);
+  const mistakes = keyStats.reduce((sum, stat) => sum + stat.mistakes, 0);
+  const totalTime = keyStats.reduce((sum, stat) => sum + stat.averageTime * stat.occurrences, 0);
+  return {
+    averageTime: occurrences > 0 ? Math.round(totalTime / occurrences) : 0,
+    occurrences,
+    mistakes,
+    errorRate: occurrences + mistakes > 0 ? mistakes / (occurrences + mistakes) : 0
+  };
+};
+
+/**
+ * Aggregates per-key statistics into statistics for each finger
+ * @param keyStats - Key statistics from calculateKeyStats
+ * @param layout - Keyboard layout that decides which finger types each key
+ * @returns Statistics for every finger that typed a key, slowest first; keys not on the layout are left out
+ */
+export const calculateFingerStats = (keyStats: KeyStat[], layout: KeyboardLayout): FingerStat[] => {
+  return FINGERS
+    .map(finger => ({
+      finger,
+      ...combineKeyStats(keyStats.filter(stat => getKeyPosition(layout, stat.key)?.finger === finger))
+    }))
+    .filter(stat => stat.occurrences + stat.mistakes > 0)
+    .sort((a, b) => b.averageTime - a.averageTime);
+};
+
+/**
+ * Aggregates per-key statistics into statistics for each hand
+ * @param keyStats - Key statistics from calculateKeyStats
+ * @param layout - Keyboard layout that decides which hand types each key
+ * @returns Statistics for the left and right hands
+ */
+export const calculateHandStats = (keyStats: KeyStat[], layout: KeyboardLayout): HandStat[] => {
+  return (['left', 'right'] as Hand[]).map(hand => ({
+    hand,
+    ...combineKeyStats(keyStats.filter(stat => getKeyPosition(layout, stat.key)?.hand === hand))
+  }));
+};
+
+/**
+ * Classifies a bigram by how the two keys are reached: with the same finger, with the same hand
+ * jumping over the home row, with the same hand, or with alternating hands
+ * @param layout - Keyboard layout
+ * @param bigram - Two characters typed one after the other
+ * @returns The class of the bigram, or null for a repeated key or a key not on the layout
+ */
+export const classifyBigram = (layout: KeyboardLayout, bigram: string): BigramClass | null => {
+  const first = getKeyPosition(layout, bigram[0]);
+  const second = getKeyPosition(layout, bigram[1]);
+  if (!first || !second || first.key === second.key) return null;
+
+  if (first.hand !== second.hand) return 'alternating';
+  if (first.finger === second.finger) return 'same-finger';
+  if (Math.abs(first.row - second.row) >= 2) return 'row-jump';
+  return 'same-hand';
+};
+
+/**
+ * Aggregates bigram timings by bigram class
+ * @param bigramStats - Bigram statistics from calculateBigramStats or calculateOverallBigramStats
+ * @param layout - Keyboard layout used to classify the bigrams
+ * @returns Statistics for every bigram class that was typed, in the order of BIGRAM_CLASSES
+ */
+export const calculateBigramClassStats = (bigramStats: BigramTiming[], layout: KeyboardLayout): BigramClassStat[] => {
+  return BIGRAM_CLASSES
+    .map(bigramClass => {
+      const stats = bigramStats.filter(stat => classifyBigram(layout, stat.bigram) === bigramClass);
+      const occurrences = stats.reduce((sum, stat) => sum + stat.occurrences, 0);
+      const totalTime = stats.reduce((sum, stat) => sum + stat.averageTime * stat.occurrences, 0);
+      return { bigramClass, averageTime: occurrences > 0 ? Math.round(totalTime / occurrences) : 0, occurrences };
+    })
+    .filter(stat => stat.occurrences > 0);
+};
+
+/**
+ * Finds the finger with the slowest average letter time in the typing history
+ * @param timingHistory - Historical timing data, recorded on the layout
+ * @param layout - Keyboard layout that decides which finger types each letter
+ * @returns The slowest finger, or null until every finger has too few timed letters to judge
+ */
+export const getWeakestFinger = (timingHistory: TimingHistory, layout: KeyboardLayout): Finger | null => {
+  const keyStats: KeyStat[] = Object.entries(timingHistory.historicalLetters || {}).map(([key, timing]) => ({
+    key,
+    averageTime: timing.mean,
+    occurrences: timing.count,
+    mistakes: 0,
+    errorRate: 0
+  }));
+  const candidates = calculateFingerStats(keyStats, layout).filter(stat => stat.occurrences >= WEAK_FINGER_MIN_SAMPLES);
+  return candidates.length > 0 ? candidates[0].finger : null;
+};
@@ -0,0 +1,84 @@
+import { GameMode, GameSession, GhostSetting, GhostWordDelta, KeyboardLayout, TextModes, TimingHistory } from '../types/types';
+import { getModePerformance, generateWeightedWords } from './utils';
+import { getWordFinishTimes } from './keystrokeLog';
+import { DEFAULT_TEXT_MODES, applyTextModes, endsSentence } from './textModes';
+
+// ===============================
+// Ghost Racer Functions
+// ===============================
+
+/**
+ * Picks the recorded game the ghost caret replays
+ * @param timingHistory - Historical timing data holding the recorded games
+ * @param mode - Game mode to race in; only games of the same mode are raced
+ * @param setting - Whether to race the fastest or the most recent game
+ * @param seed - Seed of a challenge game, which only races earlier attempts at the same challenge
+ * @returns The game to race, or null if the ghost is off or no game of this mode kept its keystroke log
+ */
+export const findGhostSession = (
+  timingHistory: TimingHistory,
+  mode: GameMode,
+  setting: GhostSetting,
+  seed: string | null = null
+): GameSession | null => {
+  if (setting === 'off') return null;
+
+  const recorded = getModePerformance(timingHistory, mode).filter(game =>
+    game.keystrokeLog && game.keystrokeLog.length > 0 && (seed === null || game.seed === seed));
+  if (recorded.length === 0) return null;
+  if (setting === 'recent') return recorded[recorded.length - 1];
+  return recorded.reduce((best, game) => game.wpm > best.wpm ? game : best);
+};
+
+/**
+ * Builds the word list for a race, so the player types the same text as the ghost
+ * @param ghost - Game being raced
+ * @param count - Number of words the game needs to start with
+ * @param timingHistory - Historical timing data used to pick extra words
+ * @param layout - Keyboard layout the history was recorded on
+ * @param textModes - Text modes applied to the new words
+ * @returns The ghost's words, followed by new words when a timed game needs more
+ */
+export const getGhostWords = (
+  ghost: GameSession,
+  count: number,
+  timingHistory: TimingHistory,
+  layout?: KeyboardLayout,
+  textModes: TextModes = DEFAULT_TEXT_MODES
+): string[] => {
+  if (ghost.words.length >= count) return [...ghost.words];
+  const newWords = generateWeightedWords(count - ghost.words.length, timingHistory, ghost.words, Math.random, layout);
+  const lastWord = ghost.words[ghost.words.length - 1] || '';
+  return [...ghost.words, ...applyTextModes(newWords, textModes, timingHistory, Math.random, !lastWord || endsSentence(lastWord))];
+};
+
+/**
+ * Compares how long each word took against the ghost, for the words both finished
+ * @param session - Game that raced the ghost
+ * @param ghost - Game being raced
+ * @returns Time of each word for both, with the difference for the word and in total; positive means slower than the ghost
+ */
+export const compareWithGhost = (session: GameSession, ghost: GameSession): GhostWordDelta[] => {
+  if (!session.keystrokeLog || !ghost.keystrokeLog) return [];
+
+  const finishTimes = getWordFinishTimes(session.keystrokeLog, session.words, session.mode);
+  const ghostFinishTimes = getWordFinishTimes(ghost.keystrokeLog, ghost.words, ghost.mode);
+  const deltas: GhostWordDelta[] = [];
+
+  for (let idx = 0; idx < finishTimes.length && idx < ghostFinishTimes.length; idx++) {
+    if (session.words[idx] !== ghost.words[idx]) break;
+
+    const time = finishTimes[idx] - (idx > 0 ? finishTimes[idx - 1] : 0);
+    const ghostTime = ghostFinishTimes[idx] - (idx > 0 ? ghostFinishTimes[idx - 1] : 0);
+    deltas.push({
+      wordIndex: idx,
+      word: session.words[idx],
+      time,
+      ghostTime,
+      delta: time - ghostTime,
+      totalDelta: finishTimes[idx] - ghostFinishTimes[idx]
+    });
+  }
+
+  return deltas;
+};
@@ -0,0 +1,54 @@
+import { GameSession, Keystroke } from '../types/types';
+import { BUILT_IN_LAYOUTS, QWERTY_LAYOUT, findLayout, getKeyPosition, validateLayoutRows, createCustomLayout, getLayoutKeyForCode, detectLayout } from './keyboardLayouts';
+
+// A session whose log types the given characters by striking the given physical keys
+const createLoggedSession = (keys: string, codes: string[]): GameSession => ({
+  id: 'session', startedAt: null, endedAt: null, duration: null, mode: { type: 'words', length: 1 }, settings: null,
+  words: [keys], keystrokes: keys.length, mistakes: 0, wpm: 0, accuracy: 100, seed: null,
+  keystrokeLog: keys.split('').map((key, index): Keystroke => ({
+    key, code: codes[index], modifiers: [], time: index * 100, wordIndex: 0, caret: index, correct: true, backspace: false, ignored: false
+  }))
+});
+
+describe('keyboard layouts', () => {
+  it('places keys on rows and assigns fingers by column', () => {
+    const colemak = findLayout('colemak', []);
+
+    expect(getKeyPosition(QWERTY_LAYOUT, 'f')).toEqual({ key: 'f', row: 2, column: 3, finger: 'left-index', hand: 'left' });
+    expect(getKeyPosition(colemak, 't')).toEqual({ key: 't', row: 2, column: 3, finger: 'left-index', hand: 'left' });
+    expect(getKeyPosition(colemak, 'N')?.finger).toBe('right-index');
+    expect(getKeyPosition(QWERTY_LAYOUT, "'")?.finger).toBe('right-pinky');
+    expect(getKeyPosition(QWERTY_LAYOUT, ' ')).toBeNull();
+  });
+
+  it('has every letter exactly once in each built-in layout', () => {
+    BUILT_IN_LAYOUTS.forEach(layout => {
+      expect(validateLayoutRows(layout.rows)).toEqual([]);
+    });
+  });
+
+  it('rejects custom rows with missing or repeated keys and falls back to QWERTY for unknown layouts', () => {
+    const rows = [...QWERTY_LAYOUT.rows];
+    rows[1] = rows[1].replace('q', 'a');
+
+    expect(validateLayoutRows(rows)).toEqual(['keys appear more than once: a', 'letters missing: q']);
+
+    const custom = createCustomLayout('Mine', QWERTY_LAYOUT.rows);
+    expect(findLayout(custom.id, [custom])).toBe(custom);
+    expect(findLayout(custom.id, [])).toBe(QWERTY_LAYOUT);
+  });
+
+  it('reads physical keys through a layout and recognizes the layout set in the operating system', () => {
+    const colemak = findLayout('colemak', []);
+    expect(getLayoutKeyForCode(colemak, 'KeyJ')).toBe('n');
+    expect(getLayoutKeyForCode(QWERTY_LAYOUT, 'Semicolon')).toBe(';');
+    expect(getLayoutKeyForCode(QWERTY_LAYOUT, 'Space')).toBeNull();
+
+    // "arstdhneio" typed on the home row keys, as a Colemak layout in the operating system does
+    const homeRowCodes = ['KeyA', 'KeyS', 'KeyD', 'KeyF', 'KeyG', 'KeyH', 'KeyJ', 'KeyK', 'KeyL', 'Semicolon'];
+    const sessions = Array.from({ length: 6 }, () => createLoggedSession('arstdhneio', homeRowCodes));
+
+    expect(detectLayout(sessions, [QWERTY_LAYOUT, ...BUILT_IN_LAYOUTS])).toEqual({ layout: colemak, matchRate: 1, keys: 60 });
+    expect(detectLayout(sessions.slice(0, 2), BUILT_IN_LAYOUTS)).toBeNull();
+  });
+});
@@ -0,0 +1,257 @@
+import { DetectedLayout, Finger, GameSession, KeyboardLayout, KeyPosition, KeyStat, LetterTiming } from '../types/types';
+import { analyzePhysicalKeys } from './keystrokeLog';
+
+export const QWERTY_LAYOUT: KeyboardLayout = {
+  id: 'qwerty',
+  name: 'QWERTY',
+  rows: ['1234567890-=', 'qwertyuiop[]', "asdfghjkl;'", 'zxcvbnm,./']
+};
+
+export const BUILT_IN_LAYOUTS: KeyboardLayout[] = [
+  QWERTY_LAYOUT,
+  {
+    id: 'dvorak',
+    name: 'Dvorak',
+    rows: ['1234567890[]', "',.pyfgcrl/=", 'aoeuidhtns-', ';qjkxbmwvz']
+  },
+  {
+    id: 'colemak',
+    name: 'Colemak',
+    rows: ['1234567890-=', 'qwfpgjluy;[]', "arstdhneio'", 'zxcvbkm,./']
+  },
+  {
+    id: 'workman',
+    name: 'Workman',
+    rows: ['1234567890-=', 'qdrwbjfup;[]', "ashtgyneoi'", 'zxmcvkl,./']
+  }
+];
+
+export const DEFAULT_LAYOUT_ID = QWERTY_LAYOUT.id;
+
+// Names of the rows of a layout, from the number row down
+export const LAYOUT_ROW_NAMES = ['Number row', 'Top row', 'Home row', 'Bottom row'];
+
+// Finger that strikes each column in touch typing; the right pinky also covers the columns past it
+const COLUMN_FINGERS: Finger[] = [
+  'left-pinky', 'left-ring', 'left-middle', 'left-index', 'left-index',
+  'right-index', 'right-index', 'right-middle', 'right-ring', 'right-pinky'
+];
+
+// Characters of the physical keys whose KeyboardEvent code does not name them, as on a US QWERTY keyboard
+const PUNCTUATION_CODES: { [code: string]: string } = {
+  Minus: '-',
+  Equal: '=',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Semicolon: ';',
+  Quote: "'",
+  Comma: ',',
+  Period: '.',
+  Slash: '/'
+};
+
+// Letters typed before the layout in use can be recognized from the physical keys struck
+const LAYOUT_DETECTION_MIN_KEYS = 50;
+
+// Share of letters that must match a layout for it to be suggested, allowing for a few stray keys
+const LAYOUT_DETECTION_MIN_MATCH = 0.9;
+
+// ===============================
+// Keyboard Layout Functions
+// ===============================
+
+/**
+ * Finds a built-in or custom layout by id
+ * @param id - Layout id saved in the preferences
+ * @param customLayouts - Custom layouts shared by all profiles
+ * @returns The layout, or QWERTY if a custom layout no longer exists
+ */
+export const findLayout = (id: string, customLayouts: KeyboardLayout[]): KeyboardLayout => {
+  return [...BUILT_IN_LAYOUTS, ...customLayouts].find(layout => layout.id === id) || QWERTY_LAYOUT;
+};
+
+/**
+ * Finds where a character sits on a layout and which finger types it.
+ * Fingers follow from the column, as on a standard staggered keyboard, so custom layouts get them too.
+ * @param layout - Keyboard layout
+ * @param key - Character typed; letters are matched regardless of case
+ * @returns Row (0 for the number row), column, finger and hand of the key, or null if the layout has no such key
+ */
+export const getKeyPosition = (layout: KeyboardLayout, key: string): KeyPosition | null => {
+  const lowerKey = key.toLowerCase();
+  for (let row = 0; row < layout.rows.length; row++) {
+    const column = layout.rows[row].indexOf(lowerKey);
+    if (column >= 0) {
+      const finger = COLUMN_FINGERS[Math.min(column, COLUMN_FINGERS.length - 1)];
+      return { key: lowerKey, row, column, finger, hand: finger.startsWith('left') ? 'left' : 'right' };
+    }
+  }
+  return null;
+};
+
+/**
+ * Creates a new custom layout
+ * @param name - Display name of the layout
+ * @param rows - Character keys of each row from the number row down
+ * @returns The new layout with a unique id
+ */
+export const createCustomLayout = (name: string, rows: string[]): KeyboardLayout => ({
+  id: `layout-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  rows: [...rows]
+});
+
+/**
+ * Makes a layout name unique by numbering it if another layout already uses it
+ * @param name - Preferred name
+ * @param customLayouts - Existing custom layouts; built-in names are always taken
+ * @returns The name, or the name followed by the first free number such as "Colemak-DH (2)"
+ */
+export const getUniqueLayoutName = (name: string, customLayouts: KeyboardLayout[]): string => {
+  const taken = new Set([...BUILT_IN_LAYOUTS, ...customLayouts].map(layout => layout.name.toLowerCase()));
+  if (!taken.has(name.toLowerCase())) return name;
+
+  let number = 2;
+  while (taken.has(`${name} (${number})`.toLowerCase())) {
+    number++;
+  }
+  return `${name} (${number})`;
+};
+
+/**
+ * Checks the rows of a custom layout
+ * @param rows - Character keys of each row from the number row down
+ * @returns Array of problems found, empty when the rows can be used
+ */
+export const validateLayoutRows = (rows: string[]): string[] => {
+  const errors: string[] = [];
+  const keys = rows.join('');
+
+  if (rows.length !== LAYOUT_ROW_NAMES.length) {
+    errors.push(`a layout needs ${LAYOUT_ROW_NAMES.length} rows`);
+  }
+  if (/\s/.test(keys)) {
+    errors.push('rows cannot contain spaces');
+  }
+  if (keys !== keys.toLowerCase()) {
+    errors.push('enter keys without Shift, so letters in lowercase');
+  }
+  const duplicates = Array.from(new Set(keys.split('').filter((key, index) => keys.indexOf(key) !== index)));
+  if (duplicates.length > 0) {
+    errors.push(`keys appear more than once: ${duplicates.join(' ')}`);
+  }
+  const missing = 'abcdefghijklmnopqrstuvwxyz'.split('').filter(letter => !keys.includes(letter));
+  if (missing.length > 0) {
+    errors.push(`letters missing: ${missing.join(' ')}`);
+  }
+
+  return errors;
+};
+
+// ===============================
+// Physical Key Functions
+// ===============================
+
+/**
+ * Finds the character a layout puts on a physical key. KeyboardEvent codes name keys by their
+ * place on a US QWERTY keyboard, so the key is looked up there and read back from the layout.
+ * @param layout - Keyboard layout
+ * @param code - KeyboardEvent code of the key, such as "KeyJ" or "Semicolon"
+ * @returns The layout's character on that key, or null for keys outside the layout such as Space
+ */
+export const getLayoutKeyForCode = (layout: KeyboardLayout, code: string): string | null => {
+  const qwertyKey = /^Key[A-Z]$/.test(code) ? code.slice(3).toLowerCase()
+    : /^Digit[0-9]$/.test(code) ? code.slice(5)
+    : PUNCTUATION_CODES[code];
+  const position = qwertyKey ? getKeyPosition(QWERTY_LAYOUT, qwertyKey) : null;
+  return position ? layout.rows[position.row]?.[position.column] || null : null;
+};
+
+/**
+ * Recognizes the layout set in the operating system from the physical keys struck for each letter
+ * @param sessions - Session records; those without a keystroke log are skipped
+ * @param layouts - Layouts to compare, in order of preference when several match equally
+ * @returns The best matching layout with the share of letters it explains, or null when too few
+ * letters were typed or no layout matches well
+ */
+export const detectLayout = (sessions: GameSession[], layouts: KeyboardLayout[]): DetectedLayout | null => {
+  const letterKeys = sessions
+    .flatMap(session => session.keystrokeLog || [])
+    .filter(keystroke => !keystroke.ignored && /^[a-z]$/i.test(keystroke.key) && keystroke.code);
+  if (letterKeys.length < LAYOUT_DETECTION_MIN_KEYS || layouts.length === 0) return null;
+
+  const matches = layouts.map(layout => ({
+    layout,
+    matchRate: letterKeys.filter(keystroke => getLayoutKeyForCode(layout, keystroke.code) === keystroke.key.toLowerCase()).length / letterKeys.length,
+    keys: letterKeys.length
+  }));
+  const best = matches.reduce((top, match) => match.matchRate > top.matchRate ? match : top);
+  return best.matchRate >= LAYOUT_DETECTION_MIN_MATCH ? best : null;
+};
+
+// ===============================
+// Keyboard Heatmap Functions
+// ===============================
+
+/**
+ * Combines letter timings and mistakes into per-key statistics for a keyboard heatmap
+ * @param letterStats - Letter statistics from calculateLetterStats or calculateOverallLetterStats
+ * @param letterMistakes - Number of times each letter was mistyped
+ * @returns Statistics for every key with timings or mistakes; the error rate is the share of
+ * attempts at the key that were mistyped
+ */
+export const calculateKeyStats = (
+  letterStats: LetterTiming[],
+  letterMistakes: { [letter: string]: number }
+): KeyStat[] => {
+  const keys = new Set([...letterStats.map(stat => stat.letter), ...Object.keys(letterMistakes)]);
+
+  return Array.from(keys).map(key => {
+    const stat = letterStats.find(letterStat => letterStat.letter === key);
+    const occurrences = stat?.occurrences || 0;
+    const mistakes = letterMistakes[key] || 0;
+    return {
+      key,
+      averageTime: Math.round(stat?.averageTime || 0),
+      occurrences,
+      mistakes,
+      errorRate: mistakes / (occurrences + mistakes)
+    };
+  });
+};
+
+/**
+ * Builds per-key statistics from the physical keys struck rather than the characters typed, labeled
+ * with the layout's character on each key, so the heatmap shows the real keys even when the operating
+ * system layout differs from the one picked
+ * @param sessions - Session records; those without a keystroke log are skipped
+ * @param layout - Keyboard layout shown on the heatmap
+ * @returns Statistics for every key struck; the error rate is the share of presses of the key that
+ * typed a wrong character
+ */
+export const calculatePhysicalKeyStats = (sessions: GameSession[], layout: KeyboardLayout): KeyStat[] => {
+  const timings: { [key: string]: number[] } = {};
+  const mistakes: { [key: string]: number } = {};
+
+  sessions.forEach(session => {
+    if (!session.keystrokeLog) return;
+    const physicalKeys = analyzePhysicalKeys(session.keystrokeLog);
+    Object.entries(physicalKeys.timings).forEach(([code, times]) => {
+      const key = getLayoutKeyForCode(layout, code);
+      if (key) (timings[key] = timings[key] || []).push(...times);
+    });
+    Object.entries(physicalKeys.mistakes).forEach(([code, count]) => {
+      const key = getLayoutKeyForCode(layout, code);
+      if (key) mistakes[key] = (mistakes[key] || 0) + count;
+    });
+  });
+
+  return calculateKeyStats(
+    Object.entries(timings).map(([key, times]) => ({
+      letter: key,
+      averageTime: times.reduce((sum, time) => sum + time, 0) / times.length,
+      occurrences: times.length
+    })),
+    mistakes
+  );
+};
@@ -0,0 +1,82 @@
+import { GameSession } from '../types/types';
+import { createTypingState } from './typingEngine';
+import { analyzeKeystrokes, analyzeNgrams, analyzePhysicalKeys, analyzeShiftTimings, getReplayFrame, getReplayMarks, getWordFinishTimes, pruneKeystrokeLogs, KEYSTROKE_LOG_SESSION_LIMIT } from './keystrokeLog';
+import { keyEvents, replay, analyze } from './testHelpers';
+
+describe('keystroke log analysis', () => {
+  it('records what was typed in place of each mistyped letter', () => {
+    const state = replay(createTypingState(['be', 'red'], { type: 'words', length: 2 }, false), keyEvents('br rrd'));
+    const { letterConfusions } = analyze(state);
+
+    expect(letterConfusions).toEqual([{ expected: 'e', typed: 'r', count: 2 }]);
+  });
+
+  it('recomputes the same statistics from a saved log', () => {
+    const state = replay(createTypingState(['the', 'cat'], { type: 'words', length: 2 }, false), keyEvents('tge cst', 0, 120));
+    const saved = JSON.parse(JSON.stringify(state.log));
+
+    expect(analyzeKeystrokes(saved, state.words, state.mode)).toEqual(analyze(state));
+    expect(analyze(state).letterMistakes).toEqual({ h: 1, a: 1 });
+    expect(analyze(state).wordMistypes).toEqual({ the: 1, cat: 1 });
+  });
+
+  it('times trigrams and longer n-grams from their first key to their last, skipping mistyped ones', () => {
+    const state = replay(createTypingState(['abcd', 'abc'], { type: 'words', length: 2 }, true), keyEvents('abxc\b\bcd abc'));
+
+    expect(analyzeNgrams(state.log, state.words, 3)).toEqual({ abc: [600, 200], bcd: [600] });
+    expect(analyzeNgrams(state.log, state.words, 4)).toEqual({ abcd: [700] });
+    expect(analyze(state).timings.trigrams).toEqual(analyzeNgrams(state.log, state.words, 3));
+  });
+
+  it('rebuilds the word display at any point of a replay', () => {
+    const state = replay(createTypingState(['ab', 'cd'], { type: 'words', length: 2 }, true), keyEvents('ax\bb c'));
+
+    expect(getReplayFrame(state.log, 150)).toEqual({ wordIndex: 0, currentInput: 'ax', completedInputs: [] });
+    expect(getReplayFrame(state.log, 250)).toEqual({ wordIndex: 0, currentInput: 'a', completedInputs: [] });
+    expect(getReplayFrame(state.log, 500)).toEqual({ wordIndex: 1, currentInput: 'c', completedInputs: ['ab'] });
+  });
+
+  it('marks hesitations, mistypes and corrections for a replay', () => {
+    const events = [...keyEvents('ax\bb', 0), ...keyEvents(' c', 1500)];
+    const state = replay(createTypingState(['ab', 'cd'], { type: 'words', length: 2 }, true), events);
+
+    expect(getReplayMarks(state.log).map(({ type, time, wordIndex, charIndex }) => [type, time, wordIndex, charIndex])).toEqual([
+      ['mistype', 100, 0, 1],
+      ['correction', 200, 0, 1],
+      ['hesitation', 1500, 0, 2]
+    ]);
+  });
+
+  it('times physical keys and characters typed with Shift', () => {
+    const state = replay(createTypingState(['Ab', 'cDe'], { type: 'words', length: 2 }, false), keyEvents('Ab cx\bDe'));
+
+    expect(state.log[0].modifiers).toEqual(['Shift']);
+    expect(analyzePhysicalKeys(state.log)).toEqual({
+      timings: { KeyB: [100], KeyC: [100], KeyD: [200], KeyE: [100] },
+      mistakes: { KeyX: 1 }
+    });
+    expect(analyzeShiftTimings(state.log)).toEqual({ shifted: { D: [200] }, unshifted: { b: [100], c: [100], e: [100] } });
+  });
+
+  it('finds when each word was finished for racing a ghost', () => {
+    const words = replay(createTypingState(['ab', 'cd'], { type: 'words', length: 2 }, true), keyEvents('ab cd'));
+    expect(getWordFinishTimes(words.log, words.words, words.mode)).toEqual([200, 400]);
+
+    const timed = replay(createTypingState(['ab', 'cd'], { type: 'time', length: 60 }, true), keyEvents('ab cd'));
+    expect(getWordFinishTimes(timed.log, timed.words, timed.mode)).toEqual([200]);
+  });
+
+  it('keeps the logs of only the most recent sessions', () => {
+    const log = replay(createTypingState(['ab'], { type: 'words', length: 1 }, true), keyEvents('ab')).log;
+    const sessions = Array.from({ length: KEYSTROKE_LOG_SESSION_LIMIT + 2 }, (_, index) => ({
+      id: String(index),
+      keystrokeLog: index === 0 ? null : log
+    } as GameSession));
+    const pruned = pruneKeystrokeLogs(sessions);
+
+    expect(pruned.map(session => session.id)).toEqual(sessions.map(session => session.id));
+    expect(pruned.filter(session => session.keystrokeLog !== null)).toHaveLength(KEYSTROKE_LOG_SESSION_LIMIT);
+    expect(pruned[1].keystrokeLog).toBeNull();
+    expect(pruned[pruned.length - 1]).toBe(sessions[sessions.length - 1]);
+  });
+});
@@ -0,0 +1,330 @@
+import { GameMode, GameSession, Keystroke, KeystrokeAnalysis, Modifier, ReplayFrame, ReplayMark } from '../types/types';
+import { addLetterConfusions } from './confusions';
+
+// Number of most recent sessions per profile that keep their full keystroke log
+export const KEYSTROKE_LOG_SESSION_LIMIT = 20;
+
+// A pause before a key counts as a hesitation when it is this many times the typist's median pause
+const HESITATION_MEDIAN_FACTOR = 3;
+
+// Shortest pause in milliseconds that counts as a hesitation, so fast typists are not flagged for every stumble
+const HESITATION_MIN_PAUSE = 500;
+
+// Modifier keys and lock states recorded with each key press
+export const MODIFIERS: Modifier[] = ['Shift', 'Control', 'Alt', 'Meta', 'AltGraph', 'CapsLock'];
+
+// ===============================
+// Keystroke Log Functions
+// ===============================
+
+/**
+ * Gets the modifiers held, or locks on, when a key was pressed
+ * @param event - Keyboard event of the key press
+ * @returns Active modifiers, in the order of MODIFIERS
+ */
+export const getEventModifiers = (event: KeyboardEvent): Modifier[] => {
+  // The common modifiers have their own flags; AltGraph and CapsLock are only reported by getModifierState
+  const flags: { [modifier in Modifier]?: boolean } = {
+    Shift: event.shiftKey,
+    Control: event.ctrlKey,
+    Alt: event.altKey,
+    Meta: event.metaKey
+  };
+  return MODIFIERS.filter(modifier => flags[modifier] ?? event.getModifierState(modifier));
+};
+
+/**
+ * Recomputes a game's letter, bigram and word timings and its mistakes from its keystroke log.
+ * Letter and bigram timings are the time since the previous character or space; word timings are
+ * the time per character from the start of the word to the space or last character that finished it.
+ * Each mistyped character is also recorded as a confusion of the expected letter with the key typed.
+ * @param log - Keystroke log of the game
+ * @param words - Words of the game
+ * @param mode - Game mode, since only word-count games finish on the last character
+ * @returns Timings and mistake counts for the game
+ */
+export const analyzeKeystrokes = (log: Keystroke[], words: string[], mode: GameMode): KeystrokeAnalysis => {
+  const analysis: KeystrokeAnalysis = {
+    timings: { letters: {}, bigrams: {}, trigrams: analyzeNgrams(log, words, 3), words: {} },
+    wordMistypes: {},
+    letterMistakes: {},
+    letterConfusions: [],
+    keystrokes: 0,
+    mistakes: 0
+  };
+  const { timings, wordMistypes, letterMistakes } = analysis;
+
+  const addTiming = (map: { [key: string]: number[] }, key: string, time: number) => {
+    (map[key] = map[key] || []).push(time);
+  };
+  const addMistake = (letter: string, word: string) => {
+    letterMistakes[letter] = (letterMistakes[letter] || 0) + 1;
+    wordMistypes[word] = (wordMistypes[word] || 0) + 1;
+    analysis.mistakes += 1;
+  };
+
+  let input = '';
+  let lastKeyTime: number | null = null;
+  let wordStartTime: number | null = null;
+
+  log.forEach(keystroke => {
+    if (keystroke.ignored) return;
+
+    const word = words[keystroke.wordIndex] || '';
+    if (keystroke.backspace) {
+      input = input.slice(0, -1);
+      return;
+    }
+    if (wordStartTime === null) {
+      wordStartTime = keystroke.time;
+    }
+
+    if (keystroke.key === ' ') {
+      addTiming(timings.words, word, Math.round((keystroke.time - wordStartTime) / word.length));
+      // Characters left untyped when moving on count as mistakes
+      word.slice(keystroke.caret).split('').forEach(letter => addMistake(letter, word));
+      input = '';
+      wordStartTime = keystroke.time;
+      lastKeyTime = keystroke.time;
+      return;
+    }
+
+    // Only typed characters count as keystrokes, not spaces or backspaces
+    analysis.keystrokes += 1;
+    if (lastKeyTime !== null) {
+      addTiming(timings.letters, keystroke.key, keystroke.time - lastKeyTime);
+      if (keystroke.caret > 0) {
+        addTiming(timings.bigrams, input[keystroke.caret - 1] + keystroke.key, keystroke.time - lastKeyTime);
+      }
+    }
+    if (!keystroke.correct) {
+      addMistake(word[keystroke.caret], word);
+      analysis.letterConfusions = addLetterConfusions(analysis.letterConfusions, [
+        { expected: word[keystroke.caret], typed: keystroke.key, count: 1 }
+      ]);
+    }
+    input += keystroke.key;
+    lastKeyTime = keystroke.time;
+
+    const finishesGame = mode.type === 'words' && keystroke.wordIndex === words.length - 1 && input.length >= word.length;
+    if (finishesGame) {
+      addTiming(timings.words, word, Math.round((keystroke.time - wordStartTime) / word.length));
+    }
+  });
+
+  return analysis;
+};
+
+/**
+ * Measures n-grams (runs of n letters within a word) from the time of their first key to their last,
+ * counting only n-grams whose letters were all typed correctly
+ * @param log - Keystroke log of the game
+ * @param words - Words of the game
+ * @param n - Number of letters in each n-gram, 3 for trigrams
+ * @returns Timings of each n-gram in the order they were typed
+ */
+export const analyzeNgrams = (log: Keystroke[], words: string[], n: number): { [ngram: string]: number[] } => {
+  const timings: { [ngram: string]: number[] } = {};
+  let input = '';
+  // Time each letter of the current word was typed, by position
+  let keyTimes: number[] = [];
+
+  log.forEach(keystroke => {
+    if (keystroke.ignored) return;
+    if (keystroke.backspace) {
+      input = input.slice(0, -1);
+      keyTimes = keyTimes.slice(0, input.length);
+      return;
+    }
+    if (keystroke.key === ' ') {
+      input = '';
+      keyTimes = [];
+      return;
+    }
+
+    input += keystroke.key;
+    keyTimes[keystroke.caret] = keystroke.time;
+
+    const start = keystroke.caret - n + 1;
+    const word = words[keystroke.wordIndex] || '';
+    if (start >= 0 && input.slice(start, start + n) === word.slice(start, start + n)) {
+      const ngram = input.slice(start, start + n);
+      (timings[ngram] = timings[ngram] || []).push(keystroke.time - keyTimes[start]);
+    }
+  });
+
+  return timings;
+};
+
+/**
+ * Times each character by the time since the previous character or space, like the letter timings
+ * of analyzeKeystrokes, and calls back with every character typed after the first
+ */
+const forEachTimedCharacter = (log: Keystroke[], callback: (keystroke: Keystroke, time: number) => void) => {
+  let lastKeyTime: number | null = null;
+  log.forEach(keystroke => {
+    if (keystroke.ignored || keystroke.backspace) return;
+    if (lastKeyTime !== null && keystroke.key !== ' ') {
+      callback(keystroke, keystroke.time - lastKeyTime);
+    }
+    lastKeyTime = keystroke.time;
+  });
+};
+
+/**
+ * Times the physical keys struck, identified by their KeyboardEvent code, whatever character
+ * the operating system layout made of them
+ * @param log - Keystroke log of the game
+ * @returns Timings of correct key presses and the number of wrong characters typed, keyed by code
+ */
+export const analyzePhysicalKeys = (log: Keystroke[]) => {
+  const timings: { [code: string]: number[] } = {};
+  const mistakes: { [code: string]: number } = {};
+
+  forEachTimedCharacter(log, (keystroke, time) => {
+    if (!keystroke.code) return;
+    if (keystroke.correct) {
+      (timings[keystroke.code] = timings[keystroke.code] || []).push(time);
+    } else {
+      mistakes[keystroke.code] = (mistakes[keystroke.code] || 0) + 1;
+    }
+  });
+
+  return { timings, mistakes };
+};
+
+/**
+ * Times correctly typed characters with and without Shift held
+ * @param log - Keystroke log of the game
+ * @returns Timings of each character typed with Shift, and of each character typed without it
+ */
+export const analyzeShiftTimings = (log: Keystroke[]) => {
+  const shifted: { [key: string]: number[] } = {};
+  const unshifted: { [key: string]: number[] } = {};
+
+  forEachTimedCharacter(log, (keystroke, time) => {
+    if (!keystroke.correct) return;
+    const timings = keystroke.modifiers.includes('Shift') ? shifted : unshifted;
+    (timings[keystroke.key] = timings[keystroke.key] || []).push(time);
+  });
+
+  return { shifted, unshifted };
+};
+
+/**
+ * Gets when each word of a game was finished, by a space or by the last character of a word-count game
+ * @param log - Keystroke log of the game
+ * @param words - Words of the game
+ * @param mode - Game mode, since only word-count games finish on the last character
+ * @returns Milliseconds since the game started at which each finished word was completed, by word index
+ */
+export const getWordFinishTimes = (log: Keystroke[], words: string[], mode: GameMode): number[] => {
+  const finishTimes: number[] = [];
+  let input = '';
+
+  log.forEach(keystroke => {
+    if (keystroke.ignored) return;
+    if (keystroke.backspace) {
+      input = input.slice(0, -1);
+      return;
+    }
+    if (keystroke.key === ' ') {
+      finishTimes[keystroke.wordIndex] = keystroke.time;
+      input = '';
+      return;
+    }
+
+    input += keystroke.key;
+    const word = words[keystroke.wordIndex] || '';
+    if (mode.type === 'words' && keystroke.wordIndex === words.length - 1 && input.length >= word.length) {
+      finishTimes[keystroke.wordIndex] = keystroke.time;
+    }
+  });
+
+  return finishTimes;
+};
+
+/**
+ * Drops the keystroke logs of all but the most recent sessions so saved data stays small
+ * @param sessions - Session records, oldest first
+ * @returns Sessions with logs kept only for the most recent ones
+ */
+export const pruneKeystrokeLogs = (sessions: GameSession[]): GameSession[] => {
+  let logsKept = 0;
+  return sessions
+    .slice()
+    .reverse()
+    .map(session => {
+      if (!session.keystrokeLog) return session;
+      logsKept += 1;
+      return logsKept > KEYSTROKE_LOG_SESSION_LIMIT ? { ...session, keystrokeLog: null } : session;
+    })
+    .reverse();
+};
+
+// ===============================
+// Replay Functions
+// ===============================
+
+/**
+ * Rebuilds what the word display showed at a point of a recorded game
+ * @param log - Keystroke log of the game
+ * @param time - Milliseconds since the game started
+ * @returns Word position and inputs after every key pressed up to that time
+ */
+export const getReplayFrame = (log: Keystroke[], time: number): ReplayFrame => {
+  let wordIndex = 0;
+  let currentInput = '';
+  const completedInputs: string[] = [];
+
+  for (const keystroke of log) {
+    if (keystroke.time > time) break;
+    if (keystroke.ignored) continue;
+
+    if (keystroke.backspace) {
+      currentInput = currentInput.slice(0, -1);
+    } else if (keystroke.key === ' ') {
+      completedInputs.push(currentInput);
+      currentInput = '';
+      wordIndex += 1;
+    } else {
+      currentInput += keystroke.key;
+    }
+  }
+
+  return { wordIndex, currentInput, completedInputs };
+};
+
+/**
+ * Finds the moments of a recorded game worth pointing out in a replay: long pauses before a key,
+ * mistyped characters and characters deleted with backspace
+ * @param log - Keystroke log of the game
+ * @returns Marks in the order they happened
+ */
+export const getReplayMarks = (log: Keystroke[]): ReplayMark[] => {
+  const keystrokes = log.filter(keystroke => !keystroke.ignored);
+  const pauses = keystrokes.map((keystroke, index) => index > 0 ? keystroke.time - keystrokes[index - 1].time : 0);
+  const sortedPauses = pauses.slice(1).sort((a, b) => a - b);
+  const medianPause = sortedPauses.length > 0 ? sortedPauses[Math.floor(sortedPauses.length / 2)] : 0;
+  const hesitationPause = Math.max(HESITATION_MIN_PAUSE, medianPause * HESITATION_MEDIAN_FACTOR);
+
+  const marks: ReplayMark[] = [];
+  keystrokes.forEach((keystroke, index) => {
+    const { key, time, wordIndex, caret } = keystroke;
+    const pause = pauses[index];
+
+    if (index > 0 && pause >= hesitationPause) {
+      marks.push({ type: 'hesitation', key, time, wordIndex, charIndex: caret, pause });
+    }
+    if (keystroke.backspace) {
+      // Backspace on an empty word deletes nothing
+      if (caret > 0) {
+        marks.push({ type: 'correction', key, time, wordIndex, charIndex: caret - 1, pause });
+      }
+    } else if (!keystroke.correct) {
+      marks.push({ type: 'mistype', key, time, wordIndex, charIndex: caret, pause });
+    }
+  });
+
+  return marks;
+};
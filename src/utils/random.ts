@@ -0,0 +1,55 @@
+// ===============================
+// Random Number Functions
+// ===============================
+
+/**
+ * Hashes a seed string into a 32-bit number with FNV-1a
+ */
+const hashSeed = (seed: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32), a drop-in replacement for Math.random
+ * @param seed - Any string; the same seed always produces the same sequence
+ * @returns Function returning the next number in [0, 1)
+ */
+export const createSeededRandom = (seed: string): (() => number) => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Creates a short random seed that is safe to put in a URL
+ * @returns Eight lowercase letters and digits
+ */
+export const createSeed = (): string => {
+  return Math.random().toString(36).slice(2, 10).padEnd(8, '0');
+};
+
+/**
+ * Picks one of several options with chances proportional to their weights
+ * @param options - Options to pick from
+ * @param weights - Weight of each option, in the same order; options weighing nothing are never picked
+ * @param random - Source of random numbers
+ * @returns The picked option
+ */
+export const pickWeighted = <T>(options: T[], weights: number[], random: () => number = Math.random): T => {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let target = random() * total;
+  for (let i = 0; i < options.length; i++) {
+    target -= weights[i];
+    if (target < 0) return options[i];
+  }
+  return options[options.length - 1];
+};
@@ -0,0 +1,113 @@
+import { GamePerformance, GameSession, DailyPerformance } from '../types/types';
+import { LEGACY_GAME_MODE } from './utils';
+
+// ===============================
+// Session Record Functions
+// ===============================
+
+/**
+ * Checks whether a history entry is already a full session record
+ * @param entry - Entry from the performance history
+ * @returns True if the entry has the session record shape
+ */
+export const isGameSession = (entry: GamePerformance | GameSession): entry is GameSession => {
+  return typeof (entry as GameSession).id === 'string' && Array.isArray((entry as GameSession).words);
+};
+
+/**
+ * Upgrades a bare { wpm, accuracy } entry to a session record.
+ * Details that were never stored, such as timestamps and settings, are left empty.
+ * @param entry - Entry from the performance history
+ * @param index - Position of the entry in the history, used to build a stable id
+ * @returns The entry as a session record
+ */
+export const migrateSession = (entry: GamePerformance | GameSession, index: number): GameSession => {
+  if (isGameSession(entry)) return entry;
+
+  return {
+    id: `legacy-${index}`,
+    startedAt: null,
+    endedAt: null,
+    duration: null,
+    mode: entry.mode || LEGACY_GAME_MODE,
+    settings: null,
+    words: [],
+    keystrokes: 0,
+    mistakes: 0,
+    wpm: entry.wpm,
+    accuracy: entry.accuracy,
+    keystrokeLog: null,
+    seed: null
+  };
+};
+
+/**
+ * Upgrades every entry of a performance history to a session record
+ * @param entries - Performance history, possibly containing bare entries
+ * @returns Array of session records in the same order
+ */
+export const migrateSessions = (entries: (GamePerformance | GameSession)[]): GameSession[] => {
+  return (entries || []).map((entry, index) => migrateSession(entry, index));
+};
+
+/**
+ * Gets the sessions that have a known start time, oldest first
+ * @param sessions - Session records
+ * @returns Array of sessions with timestamps
+ */
+export const getDatedSessions = (sessions: GameSession[]): GameSession[] => {
+  return sessions
+    .filter(session => session.startedAt !== null)
+    .sort((a, b) => a.startedAt! - b.startedAt!);
+};
+
+/**
+ * Gets the local calendar day of a timestamp as YYYY-MM-DD
+ * @param timestamp - Milliseconds since the epoch
+ * @returns Day key for the timestamp
+ */
+export const getDayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Averages the WPM and accuracy of dated sessions for each day they were played
+ * @param sessions - Session records
+ * @returns Array of daily averages, oldest day first
+ */
+export const aggregateSessionsByDay = (sessions: GameSession[]): DailyPerformance[] => {
+  const days = new Map<string, { date: number; wpm: number; accuracy: number; games: number }>();
+
+  getDatedSessions(sessions).forEach(session => {
+    const key = getDayKey(session.startedAt!);
+    const day = days.get(key) || { date: new Date(session.startedAt!).setHours(0, 0, 0, 0), wpm: 0, accuracy: 0, games: 0 };
+    day.wpm += session.wpm;
+    day.accuracy += session.accuracy;
+    day.games += 1;
+    days.set(key, day);
+  });
+
+  return Array.from(days.entries()).map(([day, { date, wpm, accuracy, games }]) => ({
+    day,
+    date,
+    wpm: Math.round(wpm / games * 100) / 100,
+    accuracy: Math.round(accuracy / games * 100) / 100,
+    games
+  }));
+};
+
+/**
+ * Formats a session timestamp for chart axes and tooltips
+ * @param timestamp - Milliseconds since the epoch
+ * @param includeTime - Whether to include the time of day
+ * @returns Localized date string
+ */
+export const formatSessionDate = (timestamp: number, includeTime = false): string => {
+  const date = new Date(timestamp);
+  return includeTime
+    ? date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+};
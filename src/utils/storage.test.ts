@@ -0,0 +1,112 @@
+import { STORAGE_KEY, SCHEMA_VERSION, migrateStoredData, validateStoredData, parseStoredData, loadStoredData, saveStoredData, createDefaultStoredData } from './storage';
+
+// Data as the first release saved it: the timing history at the top level with every sample kept
+const BASELINE_BLOB = {
+  letters: { a: 120 },
+  bigrams: { ab: 150 },
+  words: { cab: 400 },
+  historicalLetters: { a: [100, 140] },
+  historicalBigrams: { ab: [150] },
+  historicalWords: { cab: [400] },
+  historicalPerformance: [{ wpm: 60, accuracy: 95 }],
+  wordMistypes: { cab: 1 }
+};
+
+describe('stored data migrations', () => {
+  it('migrates a baseline blob to the current schema', () => {
+    const data = migrateStoredData(JSON.parse(JSON.stringify(BASELINE_BLOB)));
+    const profile = data.profiles[0];
+
+    expect(validateStoredData(data)).toEqual([]);
+    expect(data.version).toBe(SCHEMA_VERSION);
+    expect(data.activeProfileId).toBe(profile.id);
+    expect(data.customThemes).toEqual([]);
+    expect(data.customLayouts).toEqual([]);
+    expect(profile.theme).toBe('light');
+    expect(profile.layoutHistories).toEqual({});
+    expect(profile.timingHistory.historicalLetters.a).toEqual({ count: 2, mean: 120, m2: 800, recent: [100, 140] });
+    expect(profile.timingHistory.trigrams).toEqual({});
+    expect(profile.timingHistory.letterConfusions).toEqual([]);
+    expect(profile.timingHistory.historicalPerformance).toEqual([expect.objectContaining({
+      id: 'legacy-0', wpm: 60, accuracy: 95, settings: null, keystrokeLog: null, seed: null
+    })]);
+  });
+
+  it('loads data at the current schema unchanged', () => {
+    const data = createDefaultStoredData();
+
+    expect(parseStoredData(JSON.stringify(data))).toEqual(data);
+  });
+
+  it('reports data that does not have the current shape', () => {
+    const data: any = createDefaultStoredData();
+    data.activeProfileId = 'missing';
+    data.profiles[0].timingHistory.historicalPerformance = [{ wpm: 'fast' }];
+
+    expect(validateStoredData(data)).toEqual([
+      'the active profile does not exist',
+      'profile 1: historicalPerformance contains invalid sessions'
+    ]);
+    expect(() => parseStoredData(JSON.stringify(data))).toThrow('Data is invalid');
+  });
+});
+
+describe('loading and saving stored data', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('starts fresh without a notice when nothing is saved', () => {
+    const { data, notice } = loadStoredData();
+
+    expect(notice).toBeNull();
+    expect(data.profiles).toHaveLength(1);
+  });
+
+  it('quarantines corrupt JSON and replaces it with defaults', () => {
+    localStorage.setItem(STORAGE_KEY, '{"version": 12, "profiles": [');
+    const { data, notice } = loadStoredData();
+    const quarantined = Object.keys(localStorage).filter(key => key !== STORAGE_KEY);
+
+    expect(data.profiles).toHaveLength(1);
+    expect(data.profiles[0].timingHistory.historicalPerformance).toEqual([]);
+    expect(notice).toContain('Data is not valid JSON');
+    expect(quarantined).toHaveLength(1);
+    expect(notice).toContain(quarantined[0]);
+    expect(localStorage.getItem(quarantined[0])).toBe('{"version": 12, "profiles": [');
+
+    // Loading again keeps the one copy
+    loadStoredData();
+    expect(Object.keys(localStorage).filter(key => key !== STORAGE_KEY)).toHaveLength(1);
+  });
+
+  it('does not overwrite data saved by a newer version', () => {
+    const newer = JSON.stringify({ version: SCHEMA_VERSION + 1, somethingNew: true });
+    localStorage.setItem(STORAGE_KEY, newer);
+    const { data, notice } = loadStoredData();
+
+    expect(notice).toContain('newer version');
+    expect(saveStoredData(data.activeProfileId, data.profiles, [], [])).toContain('newer version');
+    expect(localStorage.getItem(STORAGE_KEY)).toBe(newer);
+  });
+
+  it('saves data that loads back the same', () => {
+    const data = createDefaultStoredData();
+
+    expect(saveStoredData(data.activeProfileId, data.profiles, data.customThemes, data.customLayouts)).toBeNull();
+    expect(loadStoredData()).toEqual({ data, notice: null });
+  });
+
+  it('reports a save that fails when storage is full', () => {
+    const data = createDefaultStoredData();
+    const setItem = jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new Error('The quota has been exceeded.');
+    });
+
+    try {
+      expect(saveStoredData(data.activeProfileId, data.profiles, [], [])).toContain('could not be saved');
+    } finally {
+      setItem.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,613 @@
+import { TimingHistory, TimingStats, StoredData, StorageLoadResult, UserPreferences, Profile, ThemeSetting, CustomTheme, KeyboardLayout, TextModes } from '../types/types';
+import { migrateSessions } from './sessions';
+import { compactTimingSamples } from './timingStats';
+import { DEFAULT_GAME_MODE } from './utils';
+import { DEFAULT_LAYOUT_ID } from './keyboardLayouts';
+import { MODIFIERS } from './keystrokeLog';
+import { DEFAULT_TEXT_MODES } from './textModes';
+
+export const STORAGE_KEY = 'type-refiner-data';
+export const SCHEMA_VERSION = 12;
+
+// Prefix of keys holding stored blobs that could not be loaded
+const QUARANTINE_PREFIX = `${STORAGE_KEY}-corrupt-`;
+
+// ===============================
+// Schema Functions
+// ===============================
+
+/**
+ * Creates an empty timing history for new users or after data is deleted
+ * @returns Timing history with no recorded data
+ */
+export const createEmptyTimingHistory = (): TimingHistory => ({
+  letters: {},
+  bigrams: {},
+  trigrams: {},
+  words: {},
+  historicalLetters: {},
+  historicalBigrams: {},
+  historicalTrigrams: {},
+  historicalWords: {},
+  historicalPerformance: [],
+  wordMistypes: {},
+  letterConfusions: []
+});
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  strictMode: true,
+  hideTargets: false,
+  selectedTab: 'letters',
+  showingOverall: false,
+  gameMode: DEFAULT_GAME_MODE,
+  ghost: 'off',
+  keyboardLayout: DEFAULT_LAYOUT_ID,
+  textModes: DEFAULT_TEXT_MODES
+};
+
+/**
+ * Builds text modes from untrusted data, turning off any that are missing or invalid
+ * @param value - Parsed text modes of unknown shape
+ * @returns Valid text modes
+ */
+const sanitizeTextModes = (value: any): TextModes => ({
+  capitalization: ['off', 'sentence', 'random'].includes(value?.capitalization) ? value.capitalization : DEFAULT_TEXT_MODES.capitalization,
+  punctuation: typeof value?.punctuation === 'boolean' ? value.punctuation : DEFAULT_TEXT_MODES.punctuation,
+  numbers: typeof value?.numbers === 'boolean' ? value.numbers : DEFAULT_TEXT_MODES.numbers,
+  symbols: typeof value?.symbols === 'boolean' ? value.symbols : DEFAULT_TEXT_MODES.symbols
+});
+
+/**
+ * Builds preferences from untrusted data, falling back to the defaults for missing or invalid values
+ * @param value - Parsed preferences of unknown shape
+ * @returns Valid user preferences
+ */
+export const sanitizePreferences = (value: any): UserPreferences => {
+  const preferences = typeof value === 'object' && value !== null ? value : {};
+  const mode = preferences.gameMode;
+
+  return {
+    strictMode: typeof preferences.strictMode === 'boolean' ? preferences.strictMode : DEFAULT_PREFERENCES.strictMode,
+    hideTargets: typeof preferences.hideTargets === 'boolean' ? preferences.hideTargets : DEFAULT_PREFERENCES.hideTargets,
+    selectedTab: ['letters', 'bigrams', 'trigrams', 'words', 'confusions', 'fingers'].includes(preferences.selectedTab) ? preferences.selectedTab : DEFAULT_PREFERENCES.selectedTab,
+    showingOverall: typeof preferences.showingOverall === 'boolean' ? preferences.showingOverall : DEFAULT_PREFERENCES.showingOverall,
+    gameMode: (mode?.type === 'words' || mode?.type === 'time') && Number.isInteger(mode.length) && mode.length > 0
+      ? { type: mode.type, length: mode.length }
+      : DEFAULT_PREFERENCES.gameMode,
+    ghost: ['off', 'best', 'recent'].includes(preferences.ghost) ? preferences.ghost : DEFAULT_PREFERENCES.ghost,
+    keyboardLayout: typeof preferences.keyboardLayout === 'string' && preferences.keyboardLayout
+      ? preferences.keyboardLayout
+      : DEFAULT_PREFERENCES.keyboardLayout,
+    textModes: sanitizeTextModes(preferences.textModes)
+  };
+};
+
+/**
+ * Builds a theme setting from untrusted data, falling back to following the system.
+ * Custom theme settings are kept even if the theme no longer exists; applying them falls back the same way.
+ * @param value - Parsed theme setting of unknown shape
+ * @returns Valid theme setting
+ */
+export const sanitizeTheme = (value: any): ThemeSetting => {
+  if (['light', 'dark', 'high-contrast', 'color-blind'].includes(value)) return value;
+  if (typeof value === 'string' && /^custom:.+/.test(value)) return value as ThemeSetting;
+  return 'system';
+};
+
+/**
+ * Checks that a value has the shape of a saved custom theme
+ */
+const isCustomTheme = (value: any): value is CustomTheme => {
+  return typeof value?.id === 'string' && typeof value.name === 'string' &&
+    isRecordOf(value.tokens, (token: any) => typeof token === 'string');
+};
+
+/**
+ * Checks that a value has the shape of a saved custom keyboard layout
+ */
+const isKeyboardLayout = (value: any): value is KeyboardLayout => {
+  return typeof value?.id === 'string' && typeof value.name === 'string' &&
+    Array.isArray(value.rows) && value.rows.every((row: any) => typeof row === 'string');
+};
+
+/**
+ * Creates a new profile
+ * @param name - Display name of the profile
+ * @param timingHistory - Typing data to start the profile with, for the layout in its preferences
+ * @param preferences - Preferences to start the profile with
+ * @param theme - Theme to start the profile with
+ * @param layoutHistories - Typing data on other keyboard layouts to start the profile with
+ * @returns The new profile with a unique id
+ */
+export const createProfile = (
+  name: string,
+  timingHistory: TimingHistory = createEmptyTimingHistory(),
+  preferences: UserPreferences = DEFAULT_PREFERENCES,
+  theme: ThemeSetting = 'system',
+  layoutHistories: { [layoutId: string]: TimingHistory } = {}
+): Profile => ({
+  id: `profile-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  createdAt: Date.now(),
+  timingHistory,
+  preferences,
+  theme,
+  layoutHistories
+});
+
+/**
+ * Creates stored data holding a single empty profile, used for new users
+ * @returns Stored data at the current schema version
+ */
+export const createDefaultStoredData = (): StoredData => {
+  const profile = createProfile('Default');
+  return { version: SCHEMA_VERSION, activeProfileId: profile.id, profiles: [profile], customThemes: [], customLayouts: [] };
+};
+
+// Each migration upgrades a blob from the version before it to `version`; they run in order
+/**
+ * Updates every session of every profile, on the layout in use and on the others, for a migration
+ */
+const mapProfileSessions = (data: any, migrateSession: (session: any) => any) => {
+  const migrateHistory = (timingHistory: any) => ({
+    ...timingHistory,
+    historicalPerformance: (timingHistory?.historicalPerformance || []).map(migrateSession)
+  });
+  return {
+    ...data,
+    profiles: data.profiles.map((profile: any) => ({
+      ...profile,
+      timingHistory: migrateHistory(profile.timingHistory),
+      layoutHistories: Object.fromEntries(Object.entries(profile.layoutHistories || {})
+        .map(([layoutId, timingHistory]) => [layoutId, migrateHistory(timingHistory)]))
+    }))
+  };
+};
+
+const migrations: { version: number; migrate: (data: any) => any }[] = [
+  {
+    // Unversioned blobs held the timing history at the top level, and older games were bare { wpm, accuracy } entries
+    version: 1,
+    migrate: (data) => ({
+      version: 1,
+      timingHistory: {
+        ...createEmptyTimingHistory(),
+        ...data,
+        historicalPerformance: migrateSessions(data.historicalPerformance || [])
+      }
+    })
+  },
+  {
+    // Historical letter, bigram and word timings were unbounded arrays of every sample
+    version: 2,
+    migrate: (data) => {
+      const compact = (samplesMap: { [key: string]: number[] } = {}) => {
+        const statsMap: { [key: string]: TimingStats } = {};
+        Object.entries(samplesMap).forEach(([key, samples]) => {
+          statsMap[key] = compactTimingSamples(Array.isArray(samples) ? samples : []);
+        });
+        return statsMap;
+      };
+
+      return {
+        version: 2,
+        timingHistory: {
+          ...data.timingHistory,
+          historicalLetters: compact(data.timingHistory.historicalLetters),
+          historicalBigrams: compact(data.timingHistory.historicalBigrams),
+          historicalWords: compact(data.timingHistory.historicalWords)
+        }
+      };
+    }
+  },
+  {
+    // A single timing history was stored for everyone; it becomes the first profile
+    version: 3,
+    migrate: (data) => {
+      // The app always started in the light theme before themes were saved
+      const profile = { ...createProfile('Default', data.timingHistory, DEFAULT_PREFERENCES, 'light'), id: 'default' };
+      return { version: 3, activeProfileId: profile.id, profiles: [profile] };
+    }
+  },
+  {
+    // Custom themes are shared by every profile on the device
+    version: 4,
+    migrate: (data) => ({ ...data, version: 4, customThemes: [] })
+  },
+  {
+    // Sessions gained a keystroke log, which older sessions never recorded
+    version: 5,
+    migrate: (data) => ({
+      ...data,
+      version: 5,
+      profiles: data.profiles.map((profile: any) => ({
+        ...profile,
+        timingHistory: {
+          ...profile.timingHistory,
+          historicalPerformance: (profile.timingHistory?.historicalPerformance || []).map((session: any) => ({
+            ...session,
+            keystrokeLog: session.keystrokeLog ?? null
+          }))
+        }
+      }))
+    })
+  },
+  {
+    // Sessions record the seed of challenge games, which older sessions never had
+    version: 6,
+    migrate: (data) => ({
+      ...data,
+      version: 6,
+      profiles: data.profiles.map((profile: any) => ({
+        ...profile,
+        timingHistory: {
+          ...profile.timingHistory,
+          historicalPerformance: (profile.timingHistory?.historicalPerformance || []).map((session: any) => ({
+            ...session,
+            seed: session.seed ?? null
+          }))
+        }
+      }))
+    })
+  },
+  {
+    // Trigram timings were added; nothing older measured them
+    version: 7,
+    migrate: (data) => ({
+      ...data,
+      version: 7,
+      profiles: data.profiles.map((profile: any) => ({
+        ...profile,
+        timingHistory: { ...profile.timingHistory, trigrams: {}, historicalTrigrams: {} }
+      }))
+    })
+  },
+  {
+    // Letter confusions were added; older versions only counted which letter was missed, not what was typed
+    version: 8,
+    migrate: (data) => ({
+      ...data,
+      version: 8,
+      profiles: data.profiles.map((profile: any) => ({
+        ...profile,
+        timingHistory: { ...profile.timingHistory, letterConfusions: [] }
+      }))
+    })
+  },
+  {
+    // Keyboard layouts were added; all earlier typing was recorded on the default layout
+    version: 9,
+    migrate: (data) => ({
+      ...data,
+      version: 9,
+      customLayouts: [],
+      profiles: data.profiles.map((profile: any) => ({ ...profile, layoutHistories: {} }))
+    })
+  },
+  {
+    // Key presses record the modifiers held; older logs did not, so their keys count as unmodified
+    version: 10,
+    migrate: (data) => mapProfileSessions({ ...data, version: 10 }, session => ({
+      ...session,
+      keystrokeLog: Array.isArray(session.keystrokeLog)
+        ? session.keystrokeLog.map((keystroke: any) => ({ ...keystroke, modifiers: [] }))
+        : session.keystrokeLog
+    }))
+  },
+  {
+    // Text modes were added; older games were all plain lowercase words
+    version: 11,
+    migrate: (data) => mapProfileSessions({ ...data, version: 11 }, session => ({
+      ...session,
+      settings: session.settings ? { ...session.settings, textModes: DEFAULT_TEXT_MODES } : null
+    }))
+  },
+  {
+    // The symbol drill was added; older games all typed words
+    version: 12,
+    migrate: (data) => mapProfileSessions({ ...data, version: 12 }, session => ({
+      ...session,
+      settings: session.settings ? { ...session.settings, textModes: { ...session.settings.textModes, symbols: false } } : null
+    }))
+  }
+];
+
+/**
+ * Gets the schema version of a parsed blob, treating blobs saved before versioning as version 0
+ * @param data - Parsed stored data
+ * @returns Schema version of the data
+ */
+const getSchemaVersion = (data: any): number => {
+  return typeof data?.version === 'number' ? data.version : 0;
+};
+
+/**
+ * Upgrades parsed stored data to the current schema version one step at a time
+ * @param data - Parsed stored data of any known version
+ * @returns Stored data at the current schema version
+ */
+export const migrateStoredData = (data: any): StoredData => {
+  const version = getSchemaVersion(data);
+  if (version > SCHEMA_VERSION) {
+    throw new Error(`Data was saved by a newer version of Type Refiner (schema ${version})`);
+  }
+
+  return migrations
+    .filter(migration => migration.version > version)
+    .reduce((current, migration) => migration.migrate(current), data);
+};
+
+/**
+ * Checks that a value is an object mapping keys to values accepted by the check
+ */
+const isRecordOf = (value: any, check: (item: any) => boolean): boolean => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.values(value).every(check);
+};
+
+const isFiniteNumber = (value: any): boolean => typeof value === 'number' && Number.isFinite(value);
+
+const isNumberArray = (value: any): boolean => Array.isArray(value) && value.every(isFiniteNumber);
+
+const isTimingStats = (value: any): boolean => {
+  return typeof value === 'object' && value !== null &&
+    isFiniteNumber(value.count) && isFiniteNumber(value.mean) && isFiniteNumber(value.m2) &&
+    isNumberArray(value.recent);
+};
+
+const isLetterMistake = (value: any): boolean => {
+  return typeof value?.expected === 'string' && typeof value.typed === 'string' && isFiniteNumber(value.count);
+};
+
+const isKeystrokeLog = (value: any): boolean => {
+  return Array.isArray(value) && value.every(keystroke =>
+    typeof keystroke?.key === 'string' && typeof keystroke.code === 'string' &&
+    Array.isArray(keystroke.modifiers) && keystroke.modifiers.every((modifier: any) => MODIFIERS.includes(modifier)) &&
+    isFiniteNumber(keystroke.time) && isFiniteNumber(keystroke.wordIndex) && isFiniteNumber(keystroke.caret) &&
+    typeof keystroke.correct === 'boolean' && typeof keystroke.backspace === 'boolean' && typeof keystroke.ignored === 'boolean'
+  );
+};
+
+/**
+ * Validates the shape of a timing history
+ * @param history - Timing history of unknown shape
+ * @returns Array of problems found, empty when the history is valid
+ */
+export const validateTimingHistory = (history: any): string[] => {
+  const errors: string[] = [];
+
+  if (typeof history !== 'object' || history === null) {
+    errors.push('missing timing history');
+    return errors;
+  }
+
+  (['letters', 'bigrams', 'trigrams', 'words', 'wordMistypes'] as const).forEach(key => {
+    if (!isRecordOf(history[key], isFiniteNumber)) {
+      errors.push(`${key} must map keys to numbers`);
+    }
+  });
+  (['historicalLetters', 'historicalBigrams', 'historicalTrigrams', 'historicalWords'] as const).forEach(key => {
+    if (!isRecordOf(history[key], isTimingStats)) {
+      errors.push(`${key} must map keys to timing statistics`);
+    }
+  });
+
+  if (!Array.isArray(history.letterConfusions) || !history.letterConfusions.every(isLetterMistake)) {
+    errors.push('letterConfusions must be a list of expected and typed letters with counts');
+  }
+
+  if (!Array.isArray(history.historicalPerformance)) {
+    errors.push('historicalPerformance must be an array');
+  } else if (!history.historicalPerformance.every((session: any) =>
+    typeof session?.id === 'string' &&
+    isFiniteNumber(session.wpm) &&
+    isFiniteNumber(session.accuracy) &&
+    Array.isArray(session.words) &&
+    (session.mode?.type === 'words' || session.mode?.type === 'time') &&
+    (session.keystrokeLog === null || isKeystrokeLog(session.keystrokeLog)) &&
+    (session.seed === null || typeof session.seed === 'string')
+  )) {
+    errors.push('historicalPerformance contains invalid sessions');
+  }
+
+  return errors;
+};
+
+/**
+ * Validates the shape of stored data at the current schema version
+ * @param data - Migrated stored data
+ * @returns Array of problems found, empty when the data is valid
+ */
+export const validateStoredData = (data: any): string[] => {
+  const errors: string[] = [];
+
+  if (getSchemaVersion(data) !== SCHEMA_VERSION) {
+    errors.push(`unexpected schema version ${data?.version}`);
+  }
+  if (!Array.isArray(data?.profiles) || data.profiles.length === 0) {
+    errors.push('there must be at least one profile');
+    return errors;
+  }
+  if (!data.profiles.some((profile: any) => profile?.id === data.activeProfileId)) {
+    errors.push('the active profile does not exist');
+  }
+
+  data.profiles.forEach((profile: any, index: number) => {
+    if (typeof profile?.id !== 'string' || typeof profile.name !== 'string') {
+      errors.push(`profile ${index + 1} must have an id and a name`);
+    }
+    validateTimingHistory(profile?.timingHistory).forEach(error => {
+      errors.push(`profile ${index + 1}: ${error}`);
+    });
+    if (!isRecordOf(profile?.layoutHistories, history => validateTimingHistory(history).length === 0)) {
+      errors.push(`profile ${index + 1}: layoutHistories must map layouts to valid timing histories`);
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Parses, migrates and validates a stored blob
+ * @param raw - Serialized stored data
+ * @returns Stored data at the current schema version
+ */
+export const parseStoredData = (raw: string): StoredData => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('Data is not valid JSON');
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('Data is not an object');
+  }
+
+  const data = migrateStoredData(parsed);
+  const errors = validateStoredData(data);
+  if (errors.length > 0) {
+    throw new Error(`Data is invalid: ${errors.join('; ')}`);
+  }
+
+  // Settings are not worth discarding the data over, so unknown values fall back to defaults
+  return {
+    ...data,
+    customThemes: Array.isArray(data.customThemes) ? data.customThemes.filter(isCustomTheme) : [],
+    customLayouts: Array.isArray(data.customLayouts) ? data.customLayouts.filter(isKeyboardLayout) : [],
+    profiles: data.profiles.map(profile => ({
+      ...profile,
+      createdAt: isFiniteNumber(profile.createdAt) ? profile.createdAt : 0,
+      preferences: sanitizePreferences(profile.preferences),
+      theme: sanitizeTheme(profile.theme)
+    }))
+  };
+};
+
+// ===============================
+// Local Storage Functions
+// ===============================
+
+/**
+ * Moves a blob that could not be loaded to its own key so it is kept for recovery but no longer loaded
+ * @param raw - Serialized stored data
+ * @returns Key the blob was stored under, or null if there was no room to keep a copy
+ */
+const quarantineStoredData = (raw: string): string | null => {
+  // Loading can run more than once for the same blob, so reuse an existing copy
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(QUARANTINE_PREFIX) && localStorage.getItem(key) === raw) {
+      return key;
+    }
+  }
+
+  const key = `${QUARANTINE_PREFIX}${Date.now()}`;
+  try {
+    localStorage.setItem(key, raw);
+    return key;
+  } catch {
+    // Not enough space to keep a copy; the blob is still replaced so the app can start
+    return null;
+  }
+};
+
+/**
+ * Parses the stored blob without migrating or validating it
+ * @returns The parsed blob, or null if there is none or it is not valid JSON
+ */
+const peekStoredData = (): any => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Loads the profiles and their typing data from localStorage, upgrading older schema versions.
+ * Corrupt or unreadable data is quarantined and replaced with a single empty profile.
+ * @returns The loaded data and a notice for the user if the data had to be recovered
+ */
+export const loadStoredData = (): StorageLoadResult => {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) {
+    return { data: createDefaultStoredData(), notice: null };
+  }
+
+  try {
+    return { data: parseStoredData(raw), notice: null };
+  } catch (error) {
+    // Data from a newer version is left in place for that version; saving skips it too
+    if (getSchemaVersion(peekStoredData()) > SCHEMA_VERSION) {
+      return {
+        data: createDefaultStoredData(),
+        notice: 'Your saved typing data is from a newer version of Type Refiner, so it was left as it is. ' +
+          'Nothing from this session will be saved until you use the newer version again.'
+      };
+    }
+
+    const key = quarantineStoredData(raw);
+    const reason = error instanceof Error ? error.message : String(error);
+    return {
+      data: createDefaultStoredData(),
+      notice: `Your saved typing data could not be loaded (${reason}), so Type Refiner started fresh. ` +
+        (key !== null
+          ? `The old data was kept in localStorage under "${key}".`
+          : 'There was not enough storage space to keep a copy of the old data.')
+    };
+  }
+};
+
+/**
+ * Reads the active profile's theme without loading the rest of the data,
+ * so the theme can be applied before the app first renders
+ * @returns The saved theme, or following the system if there is none or the data cannot be read
+ */
+export const readSavedTheme = (): ThemeSetting => {
+  const data = peekStoredData();
+  // Data saved before profiles existed always used the light theme
+  if (data && !Array.isArray(data.profiles)) return 'light';
+  const profile = Array.isArray(data?.profiles)
+    ? data.profiles.find((p: any) => p?.id === data.activeProfileId)
+    : null;
+  return sanitizeTheme(profile?.theme);
+};
+
+/**
+ * Reads the saved custom themes without loading the rest of the data
+ * @returns The saved custom themes, or none if the data cannot be read
+ */
+export const readSavedCustomThemes = (): CustomTheme[] => {
+  const data = peekStoredData();
+  return Array.isArray(data?.customThemes) ? data.customThemes.filter(isCustomTheme) : [];
+};
+
+/**
+ * Saves the profiles, their typing data and the custom themes and layouts to localStorage at the current schema version
+ * @param activeProfileId - Id of the profile in use
+ * @param profiles - All profiles
+ * @param customThemes - Custom themes shared by all profiles
+ * @param customLayouts - Custom keyboard layouts shared by all profiles
+ * @returns A notice for the user if the data could not be saved, otherwise null
+ */
+export const saveStoredData = (
+  activeProfileId: string,
+  profiles: Profile[],
+  customThemes: CustomTheme[],
+  customLayouts: KeyboardLayout[]
+): string | null => {
+  if (getSchemaVersion(peekStoredData()) > SCHEMA_VERSION) {
+    return 'Your typing data was not saved because the saved data is from a newer version of Type Refiner.';
+  }
+
+  const data: StoredData = { version: SCHEMA_VERSION, activeProfileId, profiles, customThemes, customLayouts };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    return null;
+  } catch (error) {
+    // Usually the storage quota is full; the game keeps working with the data in memory
+    const reason = error instanceof Error ? error.message : String(error);
+    return `Your typing data could not be saved (${reason}). ` +
+      'Export it from the results screen to keep a copy, or free up storage space for this site.';
+  }
+};
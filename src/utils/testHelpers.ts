@@ -0,0 +1,41 @@
+import { TypingEvent, TypingState } from '../types/types';
+import { reduceTyping } from './typingEngine';
+import { analyzeKeystrokes } from './keystrokeLog';
+
+// Physical key codes for the keys used in the tests
+const getCode = (key: string) => {
+  if (key === ' ') return 'Space';
+  if (key === 'Backspace') return 'Backspace';
+  return `Key${key.toUpperCase()}`;
+};
+
+/**
+ * Turns typed text into key events spaced evenly in time; '\b' stands for Backspace and capitals are typed with Shift
+ * @param text - Text to type
+ * @param startTime - Time of the first key event
+ * @param interval - Milliseconds between key events
+ * @returns Key events typing the text
+ */
+export const keyEvents = (text: string, startTime = 0, interval = 100): TypingEvent[] => {
+  return text.split('').map((char, index) => {
+    const key = char === '\b' ? 'Backspace' : char;
+    return { type: 'keydown', key, code: getCode(key), modifiers: key.length === 1 && key !== key.toLowerCase() ? ['Shift'] : [], time: startTime + index * interval };
+  });
+};
+
+/**
+ * Applies events to a typing state in order
+ * @param state - Typing state to start from
+ * @param events - Events to apply
+ * @returns Typing state after the events
+ */
+export const replay = (state: TypingState, events: TypingEvent[]): TypingState => {
+  return events.reduce(reduceTyping, state);
+};
+
+/**
+ * Analyzes the keystroke log of a typing state
+ * @param state - Typing state to analyze
+ * @returns Timings, mistakes and keystroke counts of the game
+ */
+export const analyze = (state: TypingState) => analyzeKeystrokes(state.log, state.words, state.mode);
@@ -0,0 +1,70 @@
+import { applyTextModes, getCharacterWeights, endsSentence, createSymbolDrill, DEFAULT_TEXT_MODES } from './textModes';
+import { createSeededRandom } from './random';
+import { createEmptyTimingHistory } from './storage';
+
+const words = Array.from({ length: 40 }, (_, index) => ['apple', 'river', 'stone', 'light'][index % 4]);
+
+describe('text modes', () => {
+  it('leaves plain words alone when every mode is off', () => {
+    expect(applyTextModes(words, DEFAULT_TEXT_MODES, createEmptyTimingHistory())).toBe(words);
+  });
+
+  it('capitalizes sentence starts and ends sentences with punctuation', () => {
+    const text = applyTextModes(words, { capitalization: 'sentence', punctuation: true, numbers: false, symbols: false },
+      createEmptyTimingHistory(), createSeededRandom('sentences'));
+
+    expect(text).toHaveLength(words.length);
+    expect(text[0]).toMatch(/^["(]?[A-Z]/);
+    expect(endsSentence(text[text.length - 1])).toBe(true);
+    text.slice(1).forEach((word, index) => {
+      expect(/^["(]?[A-Z]/.test(word)).toBe(endsSentence(text[index]));
+    });
+  });
+
+  it('inserts numbers without leading zeros', () => {
+    const text = applyTextModes(words, { capitalization: 'off', punctuation: false, numbers: true, symbols: false },
+      createEmptyTimingHistory(), createSeededRandom('numbers'));
+    const numbers = text.filter(word => /^\d+$/.test(word));
+
+    expect(numbers.length).toBeGreaterThan(0);
+    numbers.forEach(number => expect(number).toMatch(/^(0|[1-9]\d{0,3})$/));
+    expect(text.filter(word => !/^\d+$/.test(word)).every(word => words.includes(word))).toBe(true);
+  });
+
+  it('weighs characters by how slow and error-prone they are compared to the average', () => {
+    const history = createEmptyTimingHistory();
+    history.historicalLetters = {
+      a: { count: 10, mean: 100, m2: 0, recent: [] },
+      ',': { count: 10, mean: 300, m2: 0, recent: [] }
+    };
+    history.letterConfusions = [{ expected: ',', typed: '.', count: 10 }];
+    const getWeight = getCharacterWeights(history);
+
+    expect(getWeight('a')).toBe(0.5);
+    expect(getWeight(',')).toBe(2.25);
+    expect(getWeight('?')).toBe(1);
+  });
+
+  it('replaces words with numbers, dates, IP addresses, prices and code in the symbol drill', () => {
+    const text = applyTextModes(words, { ...DEFAULT_TEXT_MODES, capitalization: 'sentence', symbols: true },
+      createEmptyTimingHistory(), createSeededRandom('drill'));
+
+    expect(text).toHaveLength(words.length);
+    text.forEach(token => expect(token).toMatch(/[\d{}[\]()<>=;:&|]/));
+    expect(text.some(token => /^\d{4}-\d{2}-\d{2}$/.test(token))).toBe(true);
+    expect(text.some(token => /^\d{1,3}(\.\d{1,3}){3}$/.test(token))).toBe(true);
+    expect(text.some(token => /^\$\d+\.\d{2}$/.test(token))).toBe(true);
+  });
+
+  it('drills weak symbols more often', () => {
+    const history = createEmptyTimingHistory();
+    history.historicalLetters = {
+      a: { count: 10, mean: 100, m2: 0, recent: [] },
+      '|': { count: 10, mean: 800, m2: 0, recent: [] }
+    };
+    const countPipes = (tokens: string[]) => tokens.filter(token => token.includes('|')).length;
+
+    expect(countPipes(createSymbolDrill(200, history, createSeededRandom('weak'))))
+      .toBeGreaterThan(countPipes(createSymbolDrill(200, createEmptyTimingHistory(), createSeededRandom('weak'))));
+  });
+});
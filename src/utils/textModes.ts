@@ -0,0 +1,253 @@
+import { TextModes, TimingHistory } from '../types/types';
+import { getMistakesByLetter } from './confusions';
+import { pickWeighted } from './random';
+
+export const DEFAULT_TEXT_MODES: TextModes = { capitalization: 'off', punctuation: false, numbers: false, symbols: false };
+
+// Range of the number of words in a sentence, for sentence case and sentence-ending punctuation
+const MIN_SENTENCE_LENGTH = 4;
+const MAX_SENTENCE_LENGTH = 10;
+
+// Chance of a word being capitalized in random caps, before weighting by how weak its capital is
+const RANDOM_CAPS_CHANCE = 0.25;
+
+// Chance of a word inside a sentence getting a comma, apostrophe, quotes or parentheses
+const PUNCTUATION_CHANCE = 0.2;
+
+// Chance of a word being replaced by a number
+const NUMBER_CHANCE = 0.1;
+
+// Longest number inserted, in digits
+const MAX_NUMBER_LENGTH = 4;
+
+const SENTENCE_ENDINGS = ['.', '?', '!'];
+
+// Periods end most sentences
+const SENTENCE_ENDING_WEIGHTS = [4, 1, 1];
+
+const DIGITS = '0123456789'.split('');
+
+// Punctuation added inside a sentence, by the mark that decides how weak it is
+const INNER_PUNCTUATION: { mark: string; apply: (word: string) => string }[] = [
+  { mark: ',', apply: word => `${word},` },
+  { mark: "'", apply: word => `${word}'s` },
+  { mark: '"', apply: word => `"${word}"` },
+  { mark: '(', apply: word => `(${word})` }
+];
+
+// Kinds of token in the symbol drill, and how often each is built before weighting by weak characters
+const DRILL_TOKEN_KINDS = ['number', 'date', 'ip', 'price', 'code'] as const;
+const DRILL_TOKEN_KIND_WEIGHTS = [2, 1, 1, 1, 5];
+
+// Number of tokens built for each drill token, of which the one with the weakest characters is most likely kept
+const DRILL_CANDIDATES = 4;
+
+// Short names standing in for variables in drilled code
+const DRILL_IDENTIFIERS = ['a', 'b', 'i', 'n', 'x', 'y', 'id', 'key', 'val', 'fn'];
+
+// Snippets of code drilling the programming symbols, given two identifiers
+const CODE_SNIPPETS: ((a: string, b: string) => string)[] = [
+  a => `{${a}}`,
+  a => `[${a}]`,
+  a => `${a}()`,
+  a => `${a}();`,
+  a => `<${a}>`,
+  (a, b) => `${a}[${b}]`,
+  (a, b) => `${a}(${b})`,
+  (a, b) => `${a}=${b};`,
+  (a, b) => `${a}==${b}`,
+  (a, b) => `${a}<=${b}`,
+  (a, b) => `${a}>=${b}`,
+  (a, b) => `${a}<${b}`,
+  (a, b) => `${a}>${b}`,
+  (a, b) => `${a}&&${b}`,
+  (a, b) => `${a}||${b}`,
+  (a, b) => `${a}&${b}`,
+  (a, b) => `${a}|${b}`,
+  (a, b) => `${a}:${b}`,
+  (a, b) => `{${a}:${b}}`,
+  (a, b) => `(${a})=>${b}`,
+  (a, b) => `${a}<${b}>`,
+  () => '{}',
+  () => '[]',
+  () => '();'
+];
+
+// ===============================
+// Text Mode Functions
+// ===============================
+
+/**
+ * Checks whether any text mode changes the plain lowercase words
+ * @param textModes - Text modes to check
+ * @returns True if words get capitals, punctuation or numbers, or are replaced by the symbol drill
+ */
+export const hasTextModes = (textModes: TextModes): boolean => {
+  return textModes.capitalization !== 'off' || textModes.punctuation || textModes.numbers || textModes.symbols;
+};
+
+/**
+ * Rates how weak each character is, so weak capitals, digits and punctuation marks can be picked more often
+ * @param timingHistory - Historical timing data
+ * @returns Function giving a character's weight: its average time relative to the average character,
+ * raised by its error rate; characters never typed weigh 1, like an average one
+ */
+export const getCharacterWeights = (timingHistory: TimingHistory): ((char: string) => number) => {
+  const timings = Object.values(timingHistory.historicalLetters || {}).filter(timing => timing.count > 0);
+  const averageTime = timings.length > 0 ? timings.reduce((sum, timing) => sum + timing.mean, 0) / timings.length : 0;
+  const mistakes = getMistakesByLetter(timingHistory.letterConfusions || []);
+
+  return (char: string) => {
+    const timing = timingHistory.historicalLetters?.[char];
+    if (!timing || timing.count === 0 || averageTime === 0) return 1;
+    const charMistakes = mistakes[char] || 0;
+    return (timing.mean / averageTime) * (1 + charMistakes / (timing.count + charMistakes));
+  };
+};
+
+/**
+ * Creates a number of one to MAX_NUMBER_LENGTH digits without a leading zero, favoring weak digits
+ */
+const createNumber = (getWeight: (char: string) => number, random: () => number): string => {
+  const length = 1 + Math.floor(random() * MAX_NUMBER_LENGTH);
+  const digitWeights = DIGITS.map(getWeight);
+  let number = '';
+  while (number.length < length) {
+    const digit = pickWeighted(DIGITS, digitWeights, random);
+    if (digit !== '0' || number.length > 0 || length === 1) {
+      number += digit;
+    }
+  }
+  return number;
+};
+
+// Number with exactly the given count of digits, leading zeros allowed, favoring weak digits
+const createDigits = (count: number, getWeight: (char: string) => number, random: () => number): string => {
+  const digitWeights = DIGITS.map(getWeight);
+  return Array.from({ length: count }, () => pickWeighted(DIGITS, digitWeights, random)).join('');
+};
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+/**
+ * Turns plain words into practice text with capitals, punctuation and numbers. Words are grouped into
+ * sentences of random length; sentence case capitalizes their first word and punctuation ends them.
+ * Weak capitals, digits and punctuation marks, judged from the typing history, come up more often.
+ * The symbol drill replaces the words with as many drill tokens instead, ignoring the other modes.
+ * @param words - Plain lowercase words
+ * @param textModes - Text modes to apply
+ * @param timingHistory - Historical timing data used to favor weak characters
+ * @param random - Source of random numbers
+ * @param startsSentence - Whether the first word starts a sentence; false when continuing a timed game's text
+ * @returns The words with the text modes applied, one entry per word
+ */
+export const applyTextModes = (
+  words: string[],
+  textModes: TextModes,
+  timingHistory: TimingHistory,
+  random: () => number = Math.random,
+  startsSentence = true
+): string[] => {
+  if (!hasTextModes(textModes)) return words;
+  if (textModes.symbols) return createSymbolDrill(words.length, timingHistory, random);
+
+  const getWeight = getCharacterWeights(timingHistory);
+  const pickSentenceLength = () => MIN_SENTENCE_LENGTH + Math.floor(random() * (MAX_SENTENCE_LENGTH - MIN_SENTENCE_LENGTH + 1));
+  let wordsLeftInSentence = startsSentence ? 0 : pickSentenceLength();
+
+  return words.map((word, index) => {
+    const isSentenceStart = wordsLeftInSentence === 0;
+    if (isSentenceStart) {
+      wordsLeftInSentence = pickSentenceLength();
+    }
+    wordsLeftInSentence--;
+    const isSentenceEnd = wordsLeftInSentence === 0 || index === words.length - 1;
+
+    let text = word;
+    if (textModes.numbers && random() < NUMBER_CHANCE) {
+      text = createNumber(getWeight, random);
+    } else if (textModes.capitalization === 'sentence' && isSentenceStart) {
+      text = capitalize(text);
+    } else if (textModes.capitalization === 'random' && random() < RANDOM_CAPS_CHANCE * getWeight(text.charAt(0).toUpperCase())) {
+      text = capitalize(text);
+    }
+
+    if (textModes.punctuation) {
+      if (isSentenceEnd) {
+        text += pickWeighted(SENTENCE_ENDINGS, SENTENCE_ENDINGS.map((ending, i) => SENTENCE_ENDING_WEIGHTS[i] * getWeight(ending)), random);
+      } else if (random() < PUNCTUATION_CHANCE) {
+        text = pickWeighted(INNER_PUNCTUATION, INNER_PUNCTUATION.map(({ mark }) => getWeight(mark)), random).apply(text);
+      }
+    }
+    return text;
+  });
+};
+
+/**
+ * Checks whether a word of practice text ends a sentence, so text added after it starts a new one
+ * @param word - Word of practice text
+ * @returns True if the word ends with sentence-ending punctuation, possibly inside quotes or parentheses
+ */
+export const endsSentence = (word: string): boolean => /[.?!]["')]*$/.test(word);
+
+
+// ===============================
+// Symbol Drill Functions
+// ===============================
+
+/**
+ * Rates how much a drill token practices weak characters: the average weight of its digits and symbols,
+ * leaving out the letters of its identifiers
+ */
+const getDrillWeight = (token: string, getWeight: (char: string) => number): number => {
+  const drilled = token.split('').filter(char => char.toLowerCase() === char.toUpperCase());
+  return drilled.length > 0 ? drilled.reduce((sum, char) => sum + getWeight(char), 0) / drilled.length : 1;
+};
+
+/**
+ * Builds one symbol drill token of the given kind: a number, an ISO date, an IPv4 address, a price or a
+ * snippet of code. Digits and code snippets are picked favoring weak characters.
+ */
+const createDrillToken = (
+  kind: typeof DRILL_TOKEN_KINDS[number],
+  getWeight: (char: string) => number,
+  random: () => number
+): string => {
+  const pickBetween = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  switch (kind) {
+    case 'number':
+      return createNumber(getWeight, random);
+    case 'date':
+      return `${pickBetween(1970, 2039)}-${pad(pickBetween(1, 12))}-${pad(pickBetween(1, 28))}`;
+    case 'ip':
+      return Array.from({ length: 4 }, (_, index) => pickBetween(index === 0 ? 1 : 0, 255)).join('.');
+    case 'price':
+      return `$${createNumber(getWeight, random)}.${createDigits(2, getWeight, random)}`;
+    case 'code': {
+      const pickIdentifier = () => DRILL_IDENTIFIERS[Math.floor(random() * DRILL_IDENTIFIERS.length)];
+      const snippets = CODE_SNIPPETS.map(snippet => snippet(pickIdentifier(), pickIdentifier()));
+      return pickWeighted(snippets, snippets.map(snippet => getDrillWeight(snippet, getWeight)), random);
+    }
+  }
+};
+
+/**
+ * Creates practice text of digits, numeric formats (dates, IP addresses, prices) and programming symbols.
+ * Each token is chosen from a few candidates, favoring those whose digits and symbols are weak in the
+ * typing history, so the characters typed slowest or mistyped most come up more often.
+ * @param count - Number of tokens to create
+ * @param timingHistory - Historical timing data used to favor weak characters
+ * @param random - Source of random numbers
+ * @returns Array of drill tokens, typed like words
+ */
+export const createSymbolDrill = (count: number, timingHistory: TimingHistory, random: () => number = Math.random): string[] => {
+  const getWeight = getCharacterWeights(timingHistory);
+  return Array.from({ length: count }, () => {
+    const candidates = Array.from({ length: DRILL_CANDIDATES }, () =>
+      createDrillToken(pickWeighted([...DRILL_TOKEN_KINDS], DRILL_TOKEN_KIND_WEIGHTS, random), getWeight, random)
+    );
+    return pickWeighted(candidates, candidates.map(candidate => getDrillWeight(candidate, getWeight)), random);
+  });
+};
@@ -1,6 +1,27 @@
-export let isDarkMode = false;
+import { ThemeSetting, ThemeTokens, CustomTheme, BuiltInTheme } from '../types/types';
+import { readSavedTheme, readSavedCustomThemes } from './storage';
+import { getRelativeLuminance } from './color';
 
-export const themes = {
+export const CUSTOM_THEME_PREFIX = 'custom:';
+
+// Theme chosen by the active profile; 'system' follows the operating system's color scheme
+let themeSetting: ThemeSetting = 'system';
+
+// Themes created in the theme editor, shared by all profiles
+let customThemes: CustomTheme[] = [];
+
+// Tokens being edited in the theme editor, shown instead of the chosen theme while set
+let previewTokens: ThemeTokens | null = null;
+
+// Whether the dark theme is applied
+let isDarkMode = false;
+
+// Media query for the operating system's color scheme, missing where matchMedia is unavailable
+const darkSchemeQuery = typeof window !== 'undefined' && window.matchMedia
+  ? window.matchMedia('(prefers-color-scheme: dark)')
+  : null;
+
+export const themes: { [theme in BuiltInTheme]: ThemeTokens } = {
     light: {
         '--primary': '#2563eb',
         '--primary-light': '#3b82f6',
@@ -17,6 +38,8 @@ export const themes = {
         '--text-light': '#64748b',
         '--text-dark': '#0056b3',
         '--border': '#e2e8f0',
+        '--chart-wpm': '#2196f3',
+        '--chart-accuracy': '#4caf50',
         '--shadow': '0 4px 6px -1px rgb(0 0 0 / 0.1), 0 2px 4px -2px rgb(0 0 0 / 0.1)',
         '--radius': '0.5rem',
     },
@@ -36,24 +59,131 @@ export const themes = {
         '--text-light': '#cbd5e1',
         '--text-dark': '#f8fafc',
         '--border': '#334155',
+        '--chart-wpm': '#2196f3',
+        '--chart-accuracy': '#4caf50',
+        '--shadow': '0 4px 6px -1px rgb(0 0 0 / 0.1), 0 2px 4px -2px rgb(0 0 0 / 0.1)',
+        '--radius': '0.5rem',
+    },
+    // Black on white with dark accents; every text color keeps at least 7:1 contrast
+    'high-contrast': {
+        '--primary': '#0000cc',
+        '--primary-light': '#0000cc',
+        '--primary-dark': '#000080',
+        '--secondary': '#333333',
+        '--success': '#006400',
+        '--success-dark': '#004d00',
+        '--danger': '#b00000',
+        '--danger-dark': '#800000',
+        '--background': '#ffffff',
+        '--surface': '#ffffff',
+        '--surface-dark': '#e6e6e6',
+        '--text': '#000000',
+        '--text-light': '#333333',
+        '--text-dark': '#000080',
+        '--border': '#000000',
+        '--chart-wpm': '#0000cc',
+        '--chart-accuracy': '#b35900',
+        '--shadow': '0 0 0 2px #000000',
+        '--radius': '0.5rem',
+    },
+    // Blues and oranges based on the Okabe-Ito palette, which stay distinct with deuteranopia and protanopia
+    'color-blind': {
+        '--primary': '#005a8c',
+        '--primary-light': '#0072b2',
+        '--primary-dark': '#004970',
+        '--secondary': '#64748b',
+        '--success': '#0072b2',
+        '--success-dark': '#005a8c',
+        '--danger': '#b84f00',
+        '--danger-dark': '#8f3d00',
+        '--background': '#f8fafc',
+        '--surface': '#ffffff',
+        '--surface-dark': '#f0f0f0',
+        '--text': '#161e2b',
+        '--text-light': '#5b6678',
+        '--text-dark': '#005a8c',
+        '--border': '#e2e8f0',
+        '--chart-wpm': '#0072b2',
+        '--chart-accuracy': '#d55e00',
         '--shadow': '0 4px 6px -1px rgb(0 0 0 / 0.1), 0 2px 4px -2px rgb(0 0 0 / 0.1)',
         '--radius': '0.5rem',
     },
         
 }
 
+// Names of the tokens every theme defines
+export const THEME_TOKENS = Object.keys(themes.light);
+
+// Tokens holding a color, as opposed to shadows and sizes
+export const isColorToken = (token: string) => {
+  return /^#[0-9a-f]{6}$/i.test(themes.light[token] || '');
+};
+
+export const getCustomThemeSetting = (id: string): ThemeSetting => `${CUSTOM_THEME_PREFIX}${id}`;
+
+/**
+ * Finds the custom theme a theme setting refers to
+ * @param setting - Theme setting
+ * @returns The custom theme, or undefined for built-in settings and deleted themes
+ */
+export const findCustomTheme = (setting: ThemeSetting): CustomTheme | undefined => {
+  return setting.startsWith(CUSTOM_THEME_PREFIX)
+    ? customThemes.find(theme => getCustomThemeSetting(theme.id) === setting)
+    : undefined;
+};
+
+/**
+ * Resolves a theme setting to the tokens to apply.
+ * Custom themes fill tokens they lack from the light theme, and deleted custom themes follow the system.
+ * @param setting - Theme setting
+ * @returns Value of every theme token
+ */
+export const getThemeTokens = (setting: ThemeSetting): ThemeTokens => {
+  const customTheme = findCustomTheme(setting);
+  if (customTheme) {
+    return { ...themes.light, ...customTheme.tokens };
+  }
+
+  if (setting in themes) {
+    return themes[setting as BuiltInTheme];
+  }
+
+  // 'system' and deleted custom themes follow the operating system
+  return darkSchemeQuery?.matches ? themes.dark : themes.light;
+};
+
 export const applyTheme = () => {
-  const theme = isDarkMode ? themes.dark : themes.light;
+  const theme = previewTokens || getThemeTokens(themeSetting);
+  isDarkMode = (getRelativeLuminance(theme['--background']) ?? 1) < 0.5;
   
   Object.entries(theme).forEach(([key, value]) => {
     document.documentElement.style.setProperty(key, value as string);
   });
 };
 
-export const toggleTheme = () => {
-  isDarkMode = !isDarkMode;
+export const setThemeSetting = (setting: ThemeSetting) => {
+  themeSetting = setting;
   applyTheme();
-  return isDarkMode;
+};
+
+export const setCustomThemes = (themeList: CustomTheme[]) => {
+  customThemes = themeList;
+  applyTheme();
+};
+
+// Shows tokens being edited without changing the chosen theme; null goes back to the chosen theme
+export const previewTheme = (tokens: ThemeTokens | null) => {
+  previewTokens = tokens;
+  applyTheme();
+};
+
+// Re-applies the theme when the operating system switches color scheme, which matters while following it
+darkSchemeQuery?.addEventListener?.('change', applyTheme);
+
+// Applies the saved theme, called before the first render so the page never shows the wrong colors
+export const applySavedTheme = () => {
+  customThemes = readSavedCustomThemes();
+  setThemeSetting(readSavedTheme());
 };
 
 export const getCurrentTheme = () => {
@@ -0,0 +1,50 @@
+import { addTimingSamples, mergeTimingStats, compactTimingSamples, getTimingVariance, getRecentMean, getRecentSamples, RECENT_SAMPLE_LIMIT } from './timingStats';
+
+describe('running timing statistics', () => {
+  it('matches the mean and variance of the raw samples', () => {
+    const stats = compactTimingSamples([100, 120, 140, 160]);
+
+    expect(stats.count).toBe(4);
+    expect(stats.mean).toBeCloseTo(130);
+    expect(getTimingVariance(stats)).toBeCloseTo(2000 / 3);
+    expect(stats.recent).toEqual([100, 120, 140, 160]);
+  });
+
+  it('gives the same result adding samples in batches or all at once', () => {
+    const batched = addTimingSamples(addTimingSamples(undefined, [90, 110]), [150, 170, 200]);
+    const whole = compactTimingSamples([90, 110, 150, 170, 200]);
+
+    expect(batched.count).toBe(whole.count);
+    expect(batched.mean).toBeCloseTo(whole.mean);
+    expect(batched.m2).toBeCloseTo(whole.m2);
+  });
+
+  it('keeps only the most recent samples in the window', () => {
+    const samples = Array.from({ length: RECENT_SAMPLE_LIMIT + 10 }, (_, i) => i);
+    const stats = compactTimingSamples(samples);
+
+    expect(stats.count).toBe(samples.length);
+    expect(stats.recent).toEqual(samples.slice(-RECENT_SAMPLE_LIMIT));
+    expect(getRecentMean(stats)).toBeCloseTo(34.5);
+    expect(getRecentSamples({ a: stats })).toEqual({ a: stats.recent });
+  });
+
+  it('merges two sets of statistics as if their samples were added to one', () => {
+    const merged = mergeTimingStats(compactTimingSamples([80, 100]), compactTimingSamples([120, 140, 210]));
+    const whole = compactTimingSamples([80, 100, 120, 140, 210]);
+
+    expect(merged.count).toBe(whole.count);
+    expect(merged.mean).toBeCloseTo(whole.mean);
+    expect(merged.m2).toBeCloseTo(whole.m2);
+    expect(merged.recent).toEqual(whole.recent);
+  });
+
+  it('treats missing or empty statistics as no samples', () => {
+    const stats = compactTimingSamples([100]);
+
+    expect(mergeTimingStats(undefined, stats)).toBe(stats);
+    expect(mergeTimingStats(stats, compactTimingSamples([]))).toBe(stats);
+    expect(getTimingVariance(stats)).toBe(0);
+    expect(getRecentMean({ count: 3, mean: 120, m2: 0, recent: [] })).toBe(120);
+  });
+});
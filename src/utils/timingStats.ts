@@ -0,0 +1,106 @@
+import { TimingStats } from '../types/types';
+
+// Number of most recent samples kept alongside the running statistics
+export const RECENT_SAMPLE_LIMIT = 50;
+
+// ===============================
+// Timing Statistics Functions
+// ===============================
+
+/**
+ * Creates empty running statistics
+ * @returns Timing statistics with no samples
+ */
+export const createTimingStats = (): TimingStats => ({
+  count: 0,
+  mean: 0,
+  m2: 0,
+  recent: []
+});
+
+/**
+ * Adds timing samples to running statistics using Welford's online algorithm
+ * @param stats - Existing statistics, or undefined if there are none yet
+ * @param samples - New timing samples in milliseconds
+ * @returns New statistics including the samples
+ */
+export const addTimingSamples = (stats: TimingStats | undefined, samples: number[]): TimingStats => {
+  let { count, mean, m2 } = stats || createTimingStats();
+
+  samples.forEach(sample => {
+    count += 1;
+    const delta = sample - mean;
+    mean += delta / count;
+    m2 += delta * (sample - mean);
+  });
+
+  return {
+    count,
+    mean,
+    m2,
+    recent: [...(stats?.recent || []), ...samples].slice(-RECENT_SAMPLE_LIMIT)
+  };
+};
+
+/**
+ * Combines two sets of running statistics as if all their samples had been added to one
+ * @param a - First statistics, treated as the older samples
+ * @param b - Second statistics, treated as the newer samples
+ * @returns Combined statistics
+ */
+export const mergeTimingStats = (a: TimingStats | undefined, b: TimingStats | undefined): TimingStats => {
+  if (!a || a.count === 0) return b || createTimingStats();
+  if (!b || b.count === 0) return a;
+
+  const count = a.count + b.count;
+  const delta = b.mean - a.mean;
+
+  return {
+    count,
+    mean: a.mean + delta * b.count / count,
+    m2: a.m2 + b.m2 + delta * delta * a.count * b.count / count,
+    recent: [...a.recent, ...b.recent].slice(-RECENT_SAMPLE_LIMIT)
+  };
+};
+
+/**
+ * Compacts a raw array of timing samples into running statistics
+ * @param samples - Timing samples in milliseconds
+ * @returns Statistics for the samples
+ */
+export const compactTimingSamples = (samples: number[]): TimingStats => {
+  return addTimingSamples(undefined, samples);
+};
+
+/**
+ * Gets the sample variance of running statistics
+ * @param stats - Timing statistics
+ * @returns Variance of the samples, or 0 with fewer than two samples
+ */
+export const getTimingVariance = (stats: TimingStats): number => {
+  return stats.count > 1 ? stats.m2 / (stats.count - 1) : 0;
+};
+
+/**
+ * Gets the average of the most recent samples
+ * @param stats - Timing statistics
+ * @returns Mean of the recent sample window, or the overall mean if the window is empty
+ */
+export const getRecentMean = (stats: TimingStats): number => {
+  return stats.recent.length > 0
+    ? stats.recent.reduce((a, b) => a + b, 0) / stats.recent.length
+    : stats.mean;
+};
+
+/**
+ * Gets the recent sample windows of a map of running statistics
+ * @param statsMap - Timing statistics keyed by letter, bigram or word
+ * @returns Recent samples keyed the same way
+ */
+export const getRecentSamples = (statsMap: { [key: string]: TimingStats }): { [key: string]: number[] } => {
+  const samples: { [key: string]: number[] } = {};
+  Object.entries(statsMap).forEach(([key, stats]) => {
+    samples[key] = stats.recent;
+  });
+  return samples;
+};
@@ -0,0 +1,116 @@
+import { createTypingState, reduceTyping, getGameDuration, getWordsRemaining } from './typingEngine';
+import { keyEvents, replay, analyze } from './testHelpers';
+
+describe('typing engine', () => {
+  it('completes a word-count game on the last character and records timings', () => {
+    const state = replay(createTypingState(['ab', 'cd'], { type: 'words', length: 2 }, true), keyEvents('ab cd'));
+
+    expect(state.isComplete).toBe(true);
+    expect(state.completedInputs).toEqual(['ab', 'cd']);
+    const analysis = analyze(state);
+    expect(analysis.keystrokes).toBe(4);
+    expect(analysis.mistakes).toBe(0);
+    expect(analysis.timings.letters).toEqual({ b: [100], c: [100], d: [100] });
+    expect(analysis.timings.bigrams).toEqual({ ab: [100], cd: [100] });
+    expect(analysis.timings.words).toEqual({ ab: [100], cd: [100] });
+    expect(getGameDuration(state)).toBe(400);
+    expect(state.performanceData[state.performanceData.length - 1]).toEqual({ wordIndex: 1, wpm: 150, accuracy: 100 });
+  });
+
+  it('counts mistyped characters against the expected letter and word', () => {
+    const state = replay(createTypingState(['ab', 'cd'], { type: 'words', length: 2 }, false), keyEvents('xb'));
+
+    expect(state.currentInput).toBe('xb');
+    expect(analyze(state).letterMistakes).toEqual({ a: 1 });
+    expect(analyze(state).wordMistypes).toEqual({ ab: 1 });
+    expect(analyze(state).mistakes).toBe(1);
+  });
+
+  it('only moves past a mistyped word when strict mode is off', () => {
+    const strict = replay(createTypingState(['abc', 'd'], { type: 'words', length: 2 }, true), keyEvents('a '));
+    expect(strict.wordIndex).toBe(0);
+    expect(analyze(strict).keystrokes).toBe(1);
+
+    const relaxed = replay(createTypingState(['abc', 'd'], { type: 'words', length: 2 }, false), keyEvents('a '));
+    expect(relaxed.wordIndex).toBe(1);
+    expect(relaxed.completedInputs).toEqual(['a']);
+    expect(analyze(relaxed).letterMistakes).toEqual({ b: 1, c: 1 });
+    expect(analyze(relaxed).mistakes).toBe(2);
+  });
+
+  it('removes characters on backspace without counting it as a keystroke', () => {
+    const state = replay(createTypingState(['ab'], { type: 'words', length: 1 }, true), keyEvents('x\ba'));
+
+    expect(state.currentInput).toBe('a');
+    expect(analyze(state).keystrokes).toBe(2);
+    expect(state.isComplete).toBe(false);
+  });
+
+  it('ignores backspace before the game starts', () => {
+    const initial = createTypingState(['ab'], { type: 'words', length: 1 }, true);
+    const state = replay(initial, keyEvents('\ba', 0));
+
+    expect(reduceTyping(initial, keyEvents('\b')[0])).toBe(initial);
+    expect(state.log.map(keystroke => keystroke.key)).toEqual(['a']);
+    expect(state.startTime).toBe(100);
+  });
+
+  it('ignores characters past the end of the word and empty spaces', () => {
+    const state = replay(createTypingState(['ab', 'cd'], { type: 'words', length: 2 }, true), keyEvents(' abx'));
+
+    expect(state.currentInput).toBe('ab');
+    expect(state.startTime).toBe(100);
+    expect(analyze(state).keystrokes).toBe(2);
+  });
+
+  it('produces the same state when the same events are replayed', () => {
+    const events = keyEvents('the qiuck\b\b\buick brown', 1000, 87);
+    const initial = createTypingState(['the', 'quick', 'brown'], { type: 'words', length: 3 }, true);
+
+    expect(replay(initial, events)).toEqual(replay(initial, events));
+  });
+
+  it('ends a timed game when the clock runs out, keeping the partial word', () => {
+    const initial = createTypingState(['ab', 'cd', 'ef'], { type: 'time', length: 1 }, true);
+    const typed = replay(initial, keyEvents('ab c'));
+
+    expect(reduceTyping(typed, { type: 'tick', time: 900 })).toBe(typed);
+
+    const ended = reduceTyping(typed, { type: 'tick', time: 1050 });
+    expect(ended.isComplete).toBe(true);
+    expect(ended.words).toEqual(['ab', 'cd']);
+    expect(ended.completedInputs).toEqual(['ab', 'c']);
+    expect(getGameDuration(ended)).toBe(1000);
+  });
+
+  it('ignores keys pressed after the time limit and appends words while running', () => {
+    const initial = createTypingState(['ab'], { type: 'time', length: 1 }, true);
+    const late = replay(initial, [
+      { type: 'keydown', key: 'a', code: 'KeyA', modifiers: [], time: 0 },
+      { type: 'keydown', key: 'b', code: 'KeyB', modifiers: [], time: 1000 },
+      { type: 'keydown', key: 'Backspace', code: 'Backspace', modifiers: [], time: 1100 }
+    ]);
+    expect(late.currentInput).toBe('a');
+    expect(late.log).toHaveLength(1);
+
+    const extended = reduceTyping(late, { type: 'addWords', words: ['cd', 'ef'] });
+    expect(extended.words).toEqual(['ab', 'cd', 'ef']);
+    expect(getWordsRemaining(extended)).toBe(3);
+  });
+
+  it('logs every key press with its position, timing and correctness', () => {
+    const state = replay(createTypingState(['ab', 'cd'], { type: 'words', length: 2 }, true), keyEvents('ax\bbb c', 500));
+
+    expect(state.log.map(({ key, time, wordIndex, caret, correct, backspace, ignored }) =>
+      [key, time, wordIndex, caret, correct, backspace, ignored])).toEqual([
+      ['a', 0, 0, 0, true, false, false],
+      ['x', 100, 0, 1, false, false, false],
+      ['Backspace', 200, 0, 2, false, true, false],
+      ['b', 300, 0, 1, true, false, false],
+      ['b', 400, 0, 2, false, false, true],
+      [' ', 500, 0, 2, true, false, false],
+      ['c', 600, 1, 0, true, false, false]
+    ]);
+    expect(state.log[0].code).toBe('KeyA');
+  });
+});
@@ -0,0 +1,256 @@
+import { GameMode, PerformancePoint, TypingState, TypingEvent, Keystroke, Modifier } from '../types/types';
+
+// ===============================
+// Typing Engine Functions
+// ===============================
+
+/**
+ * Creates the state of a game that has not started yet
+ * @param words - Words to be typed
+ * @param mode - Game mode
+ * @param strictMode - Whether words must be typed correctly before moving on
+ * @returns Initial typing state
+ */
+export const createTypingState = (words: string[], mode: GameMode, strictMode: boolean): TypingState => ({
+  words,
+  mode,
+  strictMode,
+  wordIndex: 0,
+  currentInput: '',
+  completedInputs: [],
+  startTime: null,
+  endTime: null,
+  log: [],
+  performanceData: [],
+  isComplete: false
+});
+
+/**
+ * Gets the number of words left to type, including the current one
+ * @param state - Typing state
+ * @returns Number of remaining words
+ */
+export const getWordsRemaining = (state: TypingState): number => {
+  return state.words.length - state.wordIndex;
+};
+
+/**
+ * Gets how long a finished game took
+ * @param state - Typing state of a completed game
+ * @returns Duration in milliseconds, or 0 if the game never started
+ */
+export const getGameDuration = (state: TypingState): number => {
+  if (state.startTime === null || state.endTime === null) return 0;
+  return Math.round(state.endTime - state.startTime);
+};
+
+/**
+ * Calculates WPM and accuracy over the words typed so far.
+ * When a timed game runs out mid-word, only the characters typed so far count towards accuracy.
+ */
+const calculatePerformancePoint = (
+  state: TypingState,
+  input: string,
+  time: number,
+  isPartialWord = false
+): PerformancePoint | null => {
+  const { words, wordIndex, completedInputs, startTime } = state;
+  if (startTime === null) return null;
+
+  const timeInMinutes = (time - startTime) / 60000;
+
+  let totalCorrectChars = 0;
+  let totalPossibleChars = 0;
+
+  for (let idx = 0; idx <= wordIndex; idx++) {
+    const word = words[idx];
+    const wordInput = idx < wordIndex ? completedInputs[idx] : input;
+
+    totalPossibleChars += isPartialWord && idx === wordIndex
+      ? Math.min(wordInput.length, word.length)
+      : word.length;
+
+    for (let charIdx = 0; charIdx < word.length; charIdx++) {
+      if (wordInput && wordInput[charIdx] === word[charIdx]) {
+        totalCorrectChars++;
+      }
+    }
+
+    if (idx < wordIndex) {
+      totalCorrectChars++;
+      totalPossibleChars++;
+    }
+  }
+
+  const accuracy = totalPossibleChars > 0
+    ? Math.round((totalCorrectChars / totalPossibleChars) * 100)
+    : 100;
+
+  const standardizedWords = totalCorrectChars / 5;
+  const wpm = timeInMinutes > 0
+    ? Math.round((standardizedWords / timeInMinutes) * 100) / 100
+    : 0;
+
+  return { wordIndex, wpm, accuracy };
+};
+
+/**
+ * Adds a performance point, replacing the last one if it is for the same word
+ */
+const withPerformancePoint = (performanceData: PerformancePoint[], point: PerformancePoint | null): PerformancePoint[] => {
+  if (!point) return performanceData;
+  if (performanceData.length > 0 && performanceData[performanceData.length - 1].wordIndex === point.wordIndex) {
+    return [...performanceData.slice(0, -1), point];
+  }
+  return [...performanceData, point];
+};
+
+/**
+ * Builds the log entry for a key press in the current state, before the key is applied
+ */
+const createKeystroke = (state: TypingState, key: string, code: string, modifiers: Modifier[], time: number, ignored: boolean): Keystroke => {
+  const { words, wordIndex, currentInput, startTime } = state;
+  const currentWord = words[wordIndex];
+  const backspace = key === 'Backspace';
+
+  return {
+    key,
+    code,
+    modifiers,
+    time: startTime !== null ? Math.round(time - startTime) : 0,
+    wordIndex,
+    caret: currentInput.length,
+    correct: !backspace && !ignored && (key === ' ' ? currentInput === currentWord : currentWord[currentInput.length] === key),
+    backspace,
+    ignored
+  };
+};
+
+/**
+ * Handles a space: finishes the current word and moves to the next, or completes the game on the last word
+ * @returns The new state, or null if the space is not accepted
+ */
+const reduceSpace = (state: TypingState, time: number): TypingState | null => {
+  const { words, wordIndex, currentInput } = state;
+  const currentWord = words[wordIndex];
+
+  if (currentInput.length === 0) return null;
+  if (state.strictMode && currentInput !== currentWord) return null;
+
+  const isLastWord = state.mode.type === 'words' && wordIndex === words.length - 1;
+
+  return {
+    ...state,
+    wordIndex: isLastWord ? wordIndex : wordIndex + 1,
+    currentInput: isLastWord ? currentInput : '',
+    completedInputs: [...state.completedInputs, currentInput],
+    endTime: isLastWord ? time : null,
+    performanceData: withPerformancePoint(state.performanceData, calculatePerformancePoint(state, currentInput, time)),
+    isComplete: isLastWord
+  };
+};
+
+/**
+ * Handles a typed character, completing the game on the last character of a word-count game
+ * @returns The new state, or null if the word is already fully typed
+ */
+const reduceCharacter = (state: TypingState, key: string, time: number): TypingState | null => {
+  const { words, wordIndex, currentInput } = state;
+  const currentWord = words[wordIndex];
+
+  if (currentInput.length >= currentWord.length) return null;
+
+  const newInput = currentInput + key;
+  const isComplete = state.mode.type === 'words' && wordIndex === words.length - 1 && newInput.length >= currentWord.length;
+
+  return {
+    ...state,
+    currentInput: newInput,
+    completedInputs: isComplete ? [...state.completedInputs, newInput] : state.completedInputs,
+    endTime: isComplete ? time : null,
+    performanceData: withPerformancePoint(state.performanceData, calculatePerformancePoint(state, newInput, time)),
+    isComplete
+  };
+};
+
+/**
+ * Handles a key press and logs it; keys other than characters, space and backspace are ignored
+ */
+const reduceKeydown = (state: TypingState, key: string, code: string, modifiers: Modifier[], time: number): TypingState => {
+  if (state.isComplete || !state.words[state.wordIndex]) return state;
+
+  // Ignore keys pressed after the clock ran out but before the game was ended
+  if (state.mode.type === 'time' && state.startTime !== null && time - state.startTime >= state.mode.length * 1000) {
+    return state;
+  }
+
+  if (key === 'Backspace') {
+    // There is nothing to delete before the game starts, and backspace never starts it
+    if (state.startTime === null) return state;
+
+    const newInput = state.currentInput.slice(0, -1);
+    return {
+      ...state,
+      currentInput: newInput,
+      log: [...state.log, createKeystroke(state, key, code, modifiers, time, false)],
+      performanceData: withPerformancePoint(state.performanceData, calculatePerformancePoint(state, newInput, time))
+    };
+  }
+  if (key.length !== 1) return state;
+
+  // The clock starts on the first accepted key press
+  const started: TypingState = { ...state, startTime: state.startTime ?? time };
+  const next = key === ' ' ? reduceSpace(started, time) : reduceCharacter(started, key, time);
+
+  if (!next) {
+    // Rejected keys are logged once the game is running, but never start it
+    return state.startTime === null
+      ? state
+      : { ...state, log: [...state.log, createKeystroke(state, key, code, modifiers, time, true)] };
+  }
+  return { ...next, log: [...state.log, createKeystroke(started, key, code, modifiers, time, false)] };
+};
+
+/**
+ * Ends a timed game once its time limit has passed, keeping the partially typed word
+ */
+const reduceTick = (state: TypingState, time: number): TypingState => {
+  const { mode, startTime, isComplete, currentInput, wordIndex } = state;
+  if (mode.type !== 'time' || startTime === null || isComplete) return state;
+  if (time - startTime < mode.length * 1000) return state;
+
+  const endTime = startTime + mode.length * 1000;
+  const hasPartialWord = currentInput.length > 0;
+
+  return {
+    ...state,
+    words: state.words.slice(0, hasPartialWord ? wordIndex + 1 : wordIndex),
+    completedInputs: hasPartialWord ? [...state.completedInputs, currentInput] : state.completedInputs,
+    endTime,
+    performanceData: withPerformancePoint(state.performanceData, calculatePerformancePoint(state, currentInput, endTime, true)),
+    isComplete: true
+  };
+};
+
+/**
+ * Applies an event to the typing state. The function is pure: replaying the same events
+ * with the same timestamps always produces the same state. Every key press is added to the
+ * keystroke log, from which timings and mistakes are calculated by analyzeKeystrokes.
+ * @param state - Current typing state
+ * @param event - Key press, clock tick, words to append, or a settings change
+ * @returns The new typing state, or the same object if the event changed nothing
+ */
+export const reduceTyping = (state: TypingState, event: TypingEvent): TypingState => {
+  switch (event.type) {
+    case 'keydown':
+      return reduceKeydown(state, event.key, event.code, event.modifiers, event.time);
+    case 'tick':
+      return reduceTick(state, event.time);
+    case 'addWords':
+      return state.isComplete ? state : { ...state, words: [...state.words, ...event.words] };
+    case 'setStrictMode':
+      return { ...state, strictMode: event.strictMode };
+    default:
+      return state;
+  }
+};
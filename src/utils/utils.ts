@@ -1,5 +1,11 @@
-import { LetterTiming, BigramTiming, TimingHistory } from '../types/types';
+import { LetterTiming, BigramTiming, NgramTiming, TimingHistory, GameMode, GamePerformance, GameSession, KeyboardLayout, ShiftStats, TargetedPatterns } from '../types/types';
 import { dictionary } from '../dictionary';
+import { addTimingSamples, getRecentSamples } from './timingStats';
+import { createSeededRandom } from './random';
+import { analyzeNgrams, analyzeShiftTimings } from './keystrokeLog';
+import { getCommonSwaps } from './confusions';
+import { QWERTY_LAYOUT, getKeyPosition } from './keyboardLayouts';
+import { getWeakestFinger } from './fingers';
 
 // ===============================
 // Letter Analysis Functions
@@ -68,14 +74,14 @@ export const calculateOverallLetterStats = (
   const letterStats = calculateLetterStats(words, wordIndex, completedInputs, currentInput, letterTimings);
   const stats: LetterTiming[] = [];
   
-  Object.entries(timingHistory.historicalLetters).forEach(([letter, times]) => {
+  Object.entries(timingHistory.historicalLetters).forEach(([letter, timing]) => {
     const currentStats = letterStats.find(stat => stat.letter === letter);
     
-    if (times.length > 0) {
+    if (timing.count > 0) {
       stats.push({
         letter,
-        averageTime: times.reduce((a, b) => a + b, 0) / times.length,
-        occurrences: times.length
+        averageTime: timing.mean,
+        occurrences: timing.count
       });
     } else if (currentStats) {
       stats.push(currentStats);
@@ -172,22 +178,17 @@ export const calculateOverallBigramStats = (
   letterTimings: { [key: string]: number[] },
   timingHistory: TimingHistory
 ): BigramTiming[] => {
-  const bigramStats = calculateBigramStats(words, wordIndex, completedInputs, currentInput, timingHistory.historicalBigrams);
+  const bigramStats = calculateBigramStats(words, wordIndex, completedInputs, currentInput, getRecentSamples(timingHistory.historicalBigrams));
   const stats: BigramTiming[] = [];
   
-  const historicalOccurrences = new Map<string, number>();
-  Object.entries(timingHistory.historicalBigrams).forEach(([bigram, times]) => {
-    historicalOccurrences.set(bigram, Math.ceil(times.length));
-  });
-  
-  Object.entries(timingHistory.historicalBigrams).forEach(([bigram, times]) => {
+  Object.entries(timingHistory.historicalBigrams).forEach(([bigram, timing]) => {
     const currentStats = bigramStats.find(stat => stat.bigram === bigram);
     
-    if (times.length > 0) {
+    if (timing.count > 0) {
       stats.push({
         bigram,
-        averageTime: Math.round(times.reduce((a, b) => a + b, 0) / times.length),
-        occurrences: historicalOccurrences.get(bigram) || 0
+        averageTime: Math.round(timing.mean),
+        occurrences: timing.count
       });
     } else if (currentStats) {
       stats.push(currentStats);
@@ -203,6 +204,116 @@ export const calculateOverallBigramStats = (
   return stats.sort((a, b) => b.averageTime - a.averageTime);
 };
 
+// ===============================
+// Shift Analysis Functions
+// ===============================
+
+/**
+ * Compares the time of characters typed with Shift held against those typed without it
+ * @param sessions - Session records; those without a keystroke log are skipped
+ * @returns Average times and counts with and without Shift, and statistics for each shifted character
+ * alongside the same key typed without Shift
+ */
+export const calculateShiftStats = (sessions: GameSession[]): ShiftStats => {
+  const shifted: { [key: string]: number[] } = {};
+  const unshifted: { [key: string]: number[] } = {};
+  sessions.forEach(session => {
+    if (!session.keystrokeLog) return;
+    const timings = analyzeShiftTimings(session.keystrokeLog);
+    [[timings.shifted, shifted], [timings.unshifted, unshifted]].forEach(([sessionTimings, combined]) => {
+      Object.entries(sessionTimings).forEach(([key, times]) => {
+        (combined[key] = combined[key] || []).push(...times);
+      });
+    });
+  });
+
+  const shiftedTimes = Object.values(shifted).flat();
+  const unshiftedTimes = Object.values(unshifted).flat();
+  const average = (times: number[]) => times.length > 0 ? Math.round(times.reduce((sum, time) => sum + time, 0) / times.length) : 0;
+
+  return {
+    shiftedTime: average(shiftedTimes),
+    shiftedCount: shiftedTimes.length,
+    unshiftedTime: average(unshiftedTimes),
+    unshiftedCount: unshiftedTimes.length,
+    characters: Object.entries(shifted)
+      .map(([letter, times]) => {
+        const baseTimes = letter.toLowerCase() !== letter ? unshifted[letter.toLowerCase()] : undefined;
+        return {
+          letter,
+          averageTime: average(times),
+          occurrences: times.length,
+          unshiftedTime: baseTimes ? average(baseTimes) : null
+        };
+      })
+      .sort((a, b) => b.averageTime - a.averageTime)
+  };
+};
+
+// ===============================
+// Trigram Analysis Functions
+// ===============================
+
+// N-gram lengths offered in the trigram analysis; only trigrams are stored in the timing history
+export const NGRAM_LENGTHS = [3, 4, 5];
+
+/**
+ * Calculates typing statistics for trigrams or longer n-grams
+ * @param ngramTimings - Timing data for each n-gram, from analyzeNgrams
+ * @returns Array of n-gram statistics sorted by average time
+ */
+export const calculateNgramStats = (ngramTimings: { [key: string]: number[] }): NgramTiming[] => {
+  return Object.entries(ngramTimings)
+    .filter(([, timings]) => timings.length > 0)
+    .map(([ngram, timings]) => ({
+      ngram,
+      averageTime: Math.round(timings.reduce((sum, time) => sum + time, 0) / timings.length),
+      occurrences: timings.length
+    }))
+    .sort((a, b) => b.averageTime - a.averageTime);
+};
+
+/**
+ * Calculates overall trigram statistics combining current and historical data
+ * @param trigramTimings - Timing data for each trigram in the current game
+ * @param timingHistory - Historical timing data
+ * @returns Array of trigram statistics sorted by average time
+ */
+export const calculateOverallTrigramStats = (
+  trigramTimings: { [key: string]: number[] },
+  timingHistory: TimingHistory
+): NgramTiming[] => {
+  const stats: NgramTiming[] = Object.entries(timingHistory.historicalTrigrams || {})
+    .filter(([, timing]) => timing.count > 0)
+    .map(([ngram, timing]) => ({ ngram, averageTime: Math.round(timing.mean), occurrences: timing.count }));
+
+  calculateNgramStats(trigramTimings).forEach(stat => {
+    if (!stats.some(s => s.ngram === stat.ngram)) {
+      stats.push(stat);
+    }
+  });
+
+  return stats.sort((a, b) => b.averageTime - a.averageTime);
+};
+
+/**
+ * Calculates n-gram statistics over the games that kept their keystroke log, for n-gram lengths
+ * that are not stored in the timing history
+ * @param sessions - Session records; those without a keystroke log are skipped
+ * @param n - Number of letters in each n-gram
+ * @returns Array of n-gram statistics sorted by average time
+ */
+export const calculateRecordedNgramStats = (sessions: GameSession[], n: number): NgramTiming[] => {
+  const ngramTimings: { [key: string]: number[] } = {};
+  sessions.forEach(session => {
+    if (!session.keystrokeLog) return;
+    Object.entries(analyzeNgrams(session.keystrokeLog, session.words, n)).forEach(([ngram, timings]) => {
+      (ngramTimings[ngram] = ngramTimings[ngram] || []).push(...timings);
+    });
+  });
+  return calculateNgramStats(ngramTimings);
+};
+
 // ===============================
 // Word Analysis Functions
 // ===============================
@@ -278,28 +389,22 @@ export const calculateOverallWordStats = (
     });
   });
   
-  Object.entries(timingHistory.historicalWords).forEach(([word, times]) => {
+  Object.entries(timingHistory.historicalWords).forEach(([word, timing]) => {
     if (processedWords.has(word)) {
       const existingStats = stats.find(s => s.word === word)!;
-      const allTimes = [...times];
-      if (existingStats.averageTime > 0) {
-        const currentTimes = wordTimings[word] || [];
-        allTimes.push(...currentTimes);
-      }
+      const allTimes = existingStats.averageTime > 0
+        ? addTimingSamples(timing, wordTimings[word] || [])
+        : timing;
       
-      existingStats.averageTime = allTimes.length > 0 ?
-        Math.round(allTimes.reduce((a, b) => a + b, 0) / allTimes.length) :
-        0;
-      existingStats.occurrences += times.length;
+      existingStats.averageTime = allTimes.count > 0 ? Math.round(allTimes.mean) : 0;
+      existingStats.occurrences += timing.count;
       existingStats.mistypes += timingHistory.wordMistypes[word] || 0;
     } else {
       processedWords.add(word);
       stats.push({
         word,
-        averageTime: times.length > 0 ?
-          Math.round(times.reduce((a, b) => a + b, 0) / times.length) :
-          0,
-        occurrences: times.length,
+        averageTime: timing.count > 0 ? Math.round(timing.mean) : 0,
+        occurrences: timing.count,
         mistypes: timingHistory.wordMistypes[word] || 0
       });
     }
@@ -313,27 +418,103 @@ export const calculateOverallWordStats = (
   });
 };
 
+// ===============================
+// Game Mode Functions
+// ===============================
+
+export const DEFAULT_GAME_MODE: GameMode = { type: 'words', length: 25 };
+export const LEGACY_GAME_MODE: GameMode = { type: 'words', length: 20 };
+export const WORD_MODE_LENGTHS = [10, 25, 50, 100];
+export const TIMED_MODE_LENGTHS = [15, 30, 60, 120];
+export const MAX_CUSTOM_WORDS = 500;
+
+/**
+ * Gets the mode a game was played in, treating games saved before modes existed as the old fixed 20-word game
+ * @param game - Performance entry from the history
+ * @returns The game mode of the entry
+ */
+export const getPerformanceMode = (game: GamePerformance | GameSession): GameMode => {
+  return game.mode || LEGACY_GAME_MODE;
+};
+
+/**
+ * Checks whether two game modes are the same type and length
+ * @param a - First game mode
+ * @param b - Second game mode
+ * @returns True if results from both modes are comparable
+ */
+export const isSameMode = (a: GameMode, b: GameMode): boolean => {
+  return a.type === b.type && a.length === b.length;
+};
+
+/**
+ * Gets the historical performance entries recorded in the given mode
+ * @param timingHistory - Historical timing data
+ * @param mode - Game mode to filter by
+ * @returns Array of performance entries for the mode
+ */
+export const getModePerformance = (timingHistory: TimingHistory, mode: GameMode): GameSession[] => {
+  return (timingHistory.historicalPerformance || []).filter(game => isSameMode(getPerformanceMode(game), mode));
+};
+
+/**
+ * Groups the historical performance entries by the mode and length they were played at
+ * @param timingHistory - Historical timing data
+ * @returns Array of modes with their games, word-count modes first and each type ordered by length
+ */
+export const groupPerformanceByMode = (timingHistory: TimingHistory): { mode: GameMode; games: GameSession[] }[] => {
+  const groups: { mode: GameMode; games: GameSession[] }[] = [];
+
+  (timingHistory.historicalPerformance || []).forEach(game => {
+    const mode = getPerformanceMode(game);
+    const group = groups.find(g => isSameMode(g.mode, mode));
+    if (group) {
+      group.games.push(game);
+    } else {
+      groups.push({ mode, games: [game] });
+    }
+  });
+
+  return groups.sort((a, b) => {
+    if (a.mode.type !== b.mode.type) {
+      return a.mode.type === 'words' ? -1 : 1;
+    }
+    return a.mode.length - b.mode.length;
+  });
+};
+
+/**
+ * Formats a game mode for display
+ * @param mode - Game mode to format
+ * @returns Human readable description of the mode
+ */
+export const formatGameMode = (mode: GameMode): string => {
+  return mode.type === 'time' ? `${mode.length}s` : `${mode.length} words`;
+};
+
 // ===============================
 // Utility Functions
 // ===============================
 
 /**
- * Gets the most challenging patterns (letters, bigrams, and words) from historical data
+ * Gets the most challenging patterns (letters, bigrams, trigrams, words, and finger) from historical data
  * @param timingHistory - Historical timing data
- * @returns Object containing arrays of targeted letters, bigrams, and words
+ * @param layout - Keyboard layout the history was recorded on, used to find the weakest finger
+ * @returns Object containing arrays of targeted letters, bigrams, trigrams, and words, and the targeted finger or null
  */
-export const getTargetedPatterns = (timingHistory: TimingHistory) => {
+export const getTargetedPatterns = (timingHistory: TimingHistory, layout: KeyboardLayout = QWERTY_LAYOUT): TargetedPatterns => {
   const letters: string[] = [];
   const bigrams: string[] = [];
+  const trigrams: string[] = [];
   const words: string[] = [];
 
   // Find slowest letters
   const historicalLetters = timingHistory?.historicalLetters || {};
   const letterEntries = Object.entries(historicalLetters);
   if (letterEntries.length > 0) {
-    const letterStats = letterEntries.map(([letter, times]) => ({
+    const letterStats = letterEntries.map(([letter, timing]) => ({
       letter,
-      averageTime: times.reduce((a, b) => a + b, 0) / times.length
+      averageTime: timing.mean
     }));
     letterStats.sort((a, b) => b.averageTime - a.averageTime);
     letters.push(...letterStats.slice(0, 5).map(stat => stat.letter));
@@ -343,22 +524,34 @@ export const getTargetedPatterns = (timingHistory: TimingHistory) => {
   const historicalBigrams = timingHistory?.historicalBigrams || {};
   const bigramEntries = Object.entries(historicalBigrams);
   if (bigramEntries.length > 0) {
-    const bigramStats = bigramEntries.map(([bigram, times]) => ({
+    const bigramStats = bigramEntries.map(([bigram, timing]) => ({
       bigram,
-      averageTime: times.reduce((a, b) => a + b, 0) / times.length
+      averageTime: timing.mean
     }));
     bigramStats.sort((a, b) => b.averageTime - a.averageTime);
     bigrams.push(...bigramStats.slice(0, 5).map(stat => stat.bigram));
   }
 
+  // Find slowest trigrams
+  const historicalTrigrams = timingHistory?.historicalTrigrams || {};
+  const trigramEntries = Object.entries(historicalTrigrams);
+  if (trigramEntries.length > 0) {
+    const trigramStats = trigramEntries.map(([trigram, timing]) => ({
+      trigram,
+      averageTime: timing.mean
+    }));
+    trigramStats.sort((a, b) => b.averageTime - a.averageTime);
+    trigrams.push(...trigramStats.slice(0, 5).map(stat => stat.trigram));
+  }
+
   // Find most challenging words (based on mistypes and time)
   const historicalWords = timingHistory?.historicalWords || {};
   const wordMistypes = timingHistory?.wordMistypes || {};
   const wordEntries = Object.entries(historicalWords);
   if (wordEntries.length > 0) {
-    const wordStats = wordEntries.map(([word, times]) => ({
+    const wordStats = wordEntries.map(([word, timing]) => ({
       word,
-      averageTime: times.length > 0 ? times.reduce((a, b) => a + b, 0) / times.length : 0,
+      averageTime: timing.count > 0 ? timing.mean : 0,
       mistypes: wordMistypes[word] || 0
     }));
     wordStats.sort((a, b) => {
@@ -370,52 +563,75 @@ export const getTargetedPatterns = (timingHistory: TimingHistory) => {
     words.push(...wordStats.slice(0, 5).map(stat => stat.word));
   }
 
-  return { letters, bigrams, words };
+  // Find the slowest finger
+  const finger = timingHistory ? getWeakestFinger(timingHistory, layout) : null;
+
+  return { letters, bigrams, trigrams, words, finger };
+};
+
+/**
+ * Picks distinct words from the whole dictionary with equal chances
+ */
+const pickRandomWords = (count: number, exclude: string[], random: () => number): string[] => {
+  const result: string[] = [];
+  while (result.length < count) {
+    const randomWord = dictionary[Math.floor(random() * dictionary.length)];
+    if (!result.includes(randomWord) && !exclude.includes(randomWord)) {
+      result.push(randomWord);
+    }
+  }
+  return result;
 };
 
 /**
  * Generates a weighted list of words for practice, prioritizing challenging patterns
  * @param count - Number of words to generate
  * @param timingHistory - Historical timing data
+ * @param exclude - Words already in use that should not be picked again
+ * @param random - Source of random numbers; pass a seeded generator to get the same words for the same history
+ * @param layout - Keyboard layout the history was recorded on, used to favor words for the weakest finger
  * @returns Array of words for practice
  */
-export const generateWeightedWords = (count: number, timingHistory: TimingHistory): string[] => {
+export const generateWeightedWords = (
+  count: number,
+  timingHistory: TimingHistory,
+  exclude: string[] = [],
+  random: () => number = Math.random,
+  layout: KeyboardLayout = QWERTY_LAYOUT
+): string[] => {
   // For first-time users with no history
   if (!timingHistory.historicalPerformance || timingHistory.historicalPerformance.length === 0) {
-    const result: string[] = [];
-    while (result.length < count) {
-      const randomWord = dictionary[Math.floor(Math.random() * dictionary.length)];
-      if (!result.includes(randomWord)) {
-        result.push(randomWord);
-      }
-    }
-    return result;
+    return pickRandomWords(count, exclude, random);
   }
 
   // Ensure all timing history properties exist
   const safeTimingHistory: TimingHistory = {
     historicalLetters: timingHistory?.historicalLetters || {},
     historicalBigrams: timingHistory?.historicalBigrams || {},
+    historicalTrigrams: timingHistory?.historicalTrigrams || {},
     historicalWords: timingHistory?.historicalWords || {},
     wordMistypes: timingHistory?.wordMistypes || {},
+    letterConfusions: timingHistory?.letterConfusions || [],
     letters: timingHistory?.letters || {},
     bigrams: timingHistory?.bigrams || {},
+    trigrams: timingHistory?.trigrams || {},
     words: timingHistory?.words || {},
     historicalPerformance: timingHistory?.historicalPerformance || []
   };
 
-  const { letters, bigrams, words: targetWords } = getTargetedPatterns(safeTimingHistory);
+  const { trigrams: targetTrigrams, words: targetWords, finger: targetFinger } = getTargetedPatterns(safeTimingHistory, layout);
+  const commonSwaps = getCommonSwaps(safeTimingHistory.letterConfusions);
   
   // Calculate weights for each word based on historical performance
   const wordWeights = dictionary.map(word => {
     let weight = 1;
     
-    const historicalTimes = safeTimingHistory.historicalWords[word] || [];
+    const historicalTiming = safeTimingHistory.historicalWords[word];
     const currentMistypes = safeTimingHistory.words[word] ? (safeTimingHistory.wordMistypes[word] || 0) : 0;
     
     let averageTime = 0;
-    if (historicalTimes.length > 0) {
-      averageTime = historicalTimes.reduce((a, b) => a + b, 0) / historicalTimes.length;
+    if (historicalTiming && historicalTiming.count > 0) {
+      averageTime = historicalTiming.mean;
     }
     
     // Increase weight based on historical performance
@@ -431,23 +647,45 @@ export const generateWeightedWords = (count: number, timingHistory: TimingHistor
     
     // Add weight for challenging letters
     for (const char of word) {
-      const letterTimes = safeTimingHistory.historicalLetters[char] || [];
-      if (letterTimes.length > 0) {
-        const avgLetterTime = letterTimes.reduce((a, b) => a + b, 0) / letterTimes.length;
-        weight += avgLetterTime / 2000;
+      const letterTiming = safeTimingHistory.historicalLetters[char];
+      if (letterTiming && letterTiming.count > 0) {
+        weight += letterTiming.mean / 2000;
       }
     }
     
     // Add weight for challenging bigrams
     for (let i = 0; i < word.length - 1; i++) {
       const bigram = word.slice(i, i + 2);
-      const bigramTimes = safeTimingHistory.historicalBigrams[bigram] || [];
-      if (bigramTimes.length > 0) {
-        const avgBigramTime = bigramTimes.reduce((a, b) => a + b, 0) / bigramTimes.length;
-        weight += avgBigramTime / 4000;
+      const bigramTiming = safeTimingHistory.historicalBigrams[bigram];
+      if (bigramTiming && bigramTiming.count > 0) {
+        weight += bigramTiming.mean / 4000;
       }
     }
     
+    // Add weight for challenging trigrams, which span two key transitions
+    for (let i = 0; i < word.length - 2; i++) {
+      const trigramTiming = safeTimingHistory.historicalTrigrams[word.slice(i, i + 3)];
+      if (trigramTiming && trigramTiming.count > 0) {
+        weight += trigramTiming.mean / 8000;
+      }
+    }
+
+    // Favor words containing one of the slowest trigrams
+    if (targetTrigrams.some(trigram => word.includes(trigram))) {
+      weight *= 1.5;
+    }
+
+    // Favor words that need both letters of a common swap, so the two keys are practiced side by side
+    if (commonSwaps.some(swap => word.includes(swap.expected) && word.includes(swap.typed))) {
+      weight *= 1.5;
+    }
+
+    // Favor words that make the weakest finger work, more so the more of its keys they use
+    if (targetFinger) {
+      const fingerKeys = word.split('').filter(char => getKeyPosition(layout, char)?.finger === targetFinger).length;
+      weight *= 1 + fingerKeys * 0.2;
+    }
+
     // Double weight for words with recent mistypes
     if (currentMistypes > 0) {
       weight *= 2;
@@ -462,19 +700,19 @@ export const generateWeightedWords = (count: number, timingHistory: TimingHistor
   
   // Include targeted words first
   targetWords.forEach(word => {
-    if (dictionary.includes(word) && !result.includes(word)) {
+    if (dictionary.includes(word) && !result.includes(word) && !exclude.includes(word) && result.length < count) {
       result.push(word);
     }
   });
   
   // Fill remaining slots with weighted words
   while (result.length < count) {
-    const nextWord = sortedWords.find(({ word }) => !result.includes(word));
+    const nextWord = sortedWords.find(({ word }) => !result.includes(word) && !exclude.includes(word));
     if (nextWord) {
       result.push(nextWord.word);
     } else {
-      const randomWord = dictionary[Math.floor(Math.random() * dictionary.length)];
-      if (!result.includes(randomWord)) {
+      const randomWord = dictionary[Math.floor(random() * dictionary.length)];
+      if (!result.includes(randomWord) && !exclude.includes(randomWord)) {
         result.push(randomWord);
       }
     }
@@ -482,9 +720,21 @@ export const generateWeightedWords = (count: number, timingHistory: TimingHistor
   
   // Shuffle the final list
   for (let i = result.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [result[i], result[j]] = [result[j], result[i]];
   }
   
   return result;
-}; 
+};
+
+/**
+ * Generates words for a challenge from its seed alone. Typing history is not used, so everyone
+ * with the same seed gets the same words.
+ * @param count - Number of words to generate
+ * @param seed - Seed of the challenge
+ * @param exclude - Words already in use that should not be picked again
+ * @returns Array of words, always the same for the same arguments
+ */
+export const generateSeededWords = (count: number, seed: string, exclude: string[] = []): string[] => {
+  return pickRandomWords(count, exclude, createSeededRandom(seed));
+};